@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as tf from '@tensorflow/tfjs';
+import { parseHistoryParams } from '@/lib/market-data';
+import { fetchWithFallback, MarketDataRequest } from '@/lib/providers';
+import { getCachedCandles } from '@/lib/cache/price-cache';
+import { symbolSuggestions, unknownSymbolMessage } from '@/lib/instruments';
+import { resolveSymbol, SYMBOL_EXAMPLES } from '@/lib/symbols';
+import { futureBarDates } from '@/lib/trading-calendar';
+import { createFileModelStore } from '@/lib/model-store/file';
+import { ModelStore } from '@/lib/model-store/types';
+import { getForecaster } from '@/lib/models/registry';
+import { TrainingCancelledError } from '@/lib/ml-utils';
+import {
+  evaluateFit,
+  fastPredictStock,
+  parsePredictionParams,
+  PredictApiResponse,
+  PredictionResult
+} from '@/lib/prediction';
+
+// Networks train on the CPU inside the request; past this (or once the client has gone)
+// training stops and the statistical result is returned, as in the UI
+const TRAINING_BUDGET_MS = 30000;
+
+let modelStore: ModelStore | null = null;
+const getModelStore = (): ModelStore => {
+  if (!modelStore) {
+    modelStore = createFileModelStore();
+  }
+  return modelStore;
+};
+
+// Runs the same pipeline as the UI: statistical forecast first, then the chosen model
+// (the MLP reuses the model saved for this symbol and window), falling back to the
+// statistical result if it fails
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const rawSymbol = searchParams.get('symbol');
+  
+  // Accept ?symbol=TCS&exchange=BSE, ?symbol=TCS.BO, ?symbol=BSE:TCS and BSE scrip codes
+  const resolved = await resolveSymbol(rawSymbol, searchParams.get('exchange'));
+  if ('error' in resolved) {
+    return NextResponse.json({
+      success: false,
+      error: resolved.code === 'missing-symbol'
+        ? `${resolved.error}, e.g. /api/predict?symbol=RELIANCE&exchange=NSE`
+        : resolved.error,
+      code: resolved.code,
+      symbol: rawSymbol,
+      examples: SYMBOL_EXAMPLES
+    }, { status: 400 });
+  }
+  const { symbol: stockSymbol, exchange } = resolved;
+  const symbol = `${stockSymbol}.${exchange}`;
+  
+  const historyParams = parseHistoryParams(searchParams.get('range'), searchParams.get('interval'));
+  if ('error' in historyParams) {
+    return NextResponse.json({
+      success: false,
+      error: historyParams.error,
+      symbol: symbol
+    }, { status: 400 });
+  }
+  
+  const predictionParams = parsePredictionParams(searchParams.get('horizon'), searchParams.get('model'));
+  if ('error' in predictionParams) {
+    return NextResponse.json({
+      success: false,
+      error: predictionParams.error,
+      symbol: symbol
+    }, { status: 400 });
+  }
+  
+  const { range, interval } = historyParams;
+  const { horizon, model } = predictionParams;
+  
+  try {
+    const marketRequest: MarketDataRequest = { symbol: stockSymbol, exchange, range, interval };
+    const data = await getCachedCandles(marketRequest, () => fetchWithFallback(marketRequest));
+    
+    if (!data || data.data.candles.length <= 20) {
+      const suggestions = await symbolSuggestions(stockSymbol);
+      return NextResponse.json({
+        success: false,
+        error: unknownSymbolMessage(symbol, suggestions),
+        symbol: symbol,
+        suggestions: suggestions
+      }, { status: 503 });
+    }
+    
+    const candles = data.data.candles;
+    let prediction: PredictionResult = fastPredictStock(candles, horizon);
+    
+    if (model !== 'statistical') {
+      try {
+        await tf.ready();
+        const deadline = Date.now() + TRAINING_BUDGET_MS;
+        prediction = await getForecaster(model).predict(candles, horizon, {
+          store: getModelStore(),
+          modelKey: `${symbol}:${range}:${interval}`,
+          shouldStop: () => Date.now() > deadline || request.signal.aborted
+        });
+      } catch (error) {
+        const reason = error instanceof TrainingCancelledError
+          ? `Training did not finish within ${TRAINING_BUDGET_MS / 1000}s`
+          : error instanceof Error ? error.message : 'Model failed';
+        prediction = { ...prediction, fallbackReason: `${reason}. Showing the statistical model instead.` };
+      }
+    }
+    
+    return NextResponse.json<PredictApiResponse>({
+      success: true,
+      symbol: symbol,
+      exchange: exchange,
+      range: range,
+      interval: interval,
+      horizon: horizon,
+      source: data.data.source,
+      cache: data.cache,
+      lastDate: candles[candles.length - 1].date,
+      forecastDates: futureBarDates(candles[candles.length - 1].date, interval, prediction.forecast.length, exchange),
+      generatedAt: new Date().toISOString(),
+      prediction: prediction,
+      metrics: evaluateFit(candles, prediction.historicalFit)
+    });
+    
+  } catch (error) {
+    console.error('Prediction failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Server error while generating prediction',
+      symbol: symbol
+    }, { status: 500 });
+  }
+}
@@ -1,98 +1,83 @@
-import axios from 'axios';
 import { NextRequest, NextResponse } from 'next/server';
+import { parseHistoryParams } from '@/lib/market-data';
+import { fetchWithFallback, MarketDataRequest } from '@/lib/providers';
+import { getCachedCandles } from '@/lib/cache/price-cache';
+import { fillMissingSessions, validateSeries } from '@/lib/data-quality';
+import { symbolSuggestions, unknownSymbolMessage } from '@/lib/instruments';
+import { resolveSymbol, SYMBOL_EXAMPLES } from '@/lib/symbols';
 
-
-
-// Fetch data from Yahoo Finance API using chart endpoint
-async function fetchFromYahooFinance(symbol: string): Promise<Array<{ date: string; price: number; }> | null> {
-  try {
-    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=3mo&interval=1d`;
-    
-    const response = await axios.get(url, {
-      timeout: 8000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'application/json'
-      }
-    });
-    
-    if (response.data?.chart?.result?.[0]) {
-      const result = response.data.chart.result[0];
-      const timestamps = result.timestamp;
-      const prices = result.indicators?.quote?.[0]?.close;
-      
-      if (timestamps && prices && timestamps.length === prices.length) {
-        const dataPoints: Array<{ date: string; price: number; }> = [];
-        
-        for (let i = 0; i < timestamps.length; i++) {
-          if (prices[i] !== null && !isNaN(prices[i])) {
-            const date = new Date(timestamps[i] * 1000).toISOString().split('T')[0];
-            dataPoints.push({
-              date: date,
-              price: parseFloat(prices[i].toFixed(2))
-            });
-          }
-        }
-        
-        return dataPoints.length > 20 ? dataPoints : null;
-      }
-    }
-    
-    return null;
-  } catch {
-    return null;
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const rawSymbol = searchParams.get('symbol') || 'RELIANCE.NSE';
+  
+  // Reject malformed symbols up front instead of trying them against every provider
+  const resolved = await resolveSymbol(rawSymbol, searchParams.get('exchange'));
+  if ('error' in resolved) {
+    return NextResponse.json({
+      success: false,
+      error: resolved.error,
+      code: resolved.code,
+      symbol: rawSymbol,
+      examples: SYMBOL_EXAMPLES
+    }, { status: 400 });
   }
-}
-
-// Try alternative symbol formats for Indian stocks
-async function tryAlternativeFormats(symbol: string, exchange: string): Promise<Array<{ date: string; price: number; }> | null> {
-  const formats = [
-    `${symbol}.${exchange === 'NSE' ? 'NS' : 'BO'}`,
-    `${symbol}.${exchange}`,
-    symbol
-  ];
   
-  for (const format of formats) {
-    const data = await fetchFromYahooFinance(format);
-    if (data && data.length > 20) {
-      return data;
-    }
+  const symbol = `${resolved.symbol}.${resolved.exchange}`;
+  const historyParams = parseHistoryParams(searchParams.get('range'), searchParams.get('interval'));
+  
+  if ('error' in historyParams) {
+    return NextResponse.json({
+      success: false,
+      error: historyParams.error,
+      symbol: symbol
+    }, { status: 400 });
   }
   
-  return null;
-}
-
-export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const symbol = searchParams.get('symbol') || 'RELIANCE.NSE';
+  const { range, interval } = historyParams;
+  // Opt in to flat placeholder bars for sessions the series is missing
+  const fillGaps = searchParams.get('fillGaps') === 'true';
   
   try {
-    const [stockSymbol, exchange] = symbol.split('.');
-    const yahooSymbol = exchange === 'NSE' ? `${stockSymbol}.NS` : `${stockSymbol}.BO`;
+    const marketRequest: MarketDataRequest = {
+      symbol: resolved.symbol,
+      exchange: resolved.exchange,
+      range,
+      interval
+    };
     
-    // Try primary Yahoo Finance format
-    let stockData = await fetchFromYahooFinance(yahooSymbol);
+    // Serve from the price cache, walking the provider chain (MARKET_DATA_PROVIDERS) on a miss
+    const result = await getCachedCandles(marketRequest, () => fetchWithFallback(marketRequest));
     
-    // Try alternative formats if primary fails
-    if (!stockData) {
-      stockData = await tryAlternativeFormats(stockSymbol, exchange);
-    }
-    
-    if (stockData && stockData.length > 20) {
+    if (result && result.data.candles.length > 20) {
+      const checked = {
+        candles: result.data.candles,
+        report: result.data.dataQuality
+          ?? validateSeries(result.data.candles, { interval, exchange: resolved.exchange, actions: result.data.adjustments }).report
+      };
+      const { candles, report } = fillGaps ? fillMissingSessions(checked.candles, checked.report, resolved.exchange) : checked;
+      
       return NextResponse.json({
         success: true,
-        stockData: stockData,
-        source: 'yahoo_finance',
-        symbol: symbol
+        stockData: candles,
+        source: result.data.source,
+        symbol: symbol,
+        exchange: resolved.exchange,
+        bseCode: resolved.bseCode,
+        range: range,
+        interval: interval,
+        corporateActions: result.data.adjustments ?? [],
+        dataQuality: report,
+        cache: result.cache
       });
     }
     
-    // Return error if no data found
+    // Return error if no data found, with close tickers when the symbol is not in the instrument master
+    const suggestions = await symbolSuggestions(resolved.symbol);
     return NextResponse.json({
       success: false,
-      error: `Unable to fetch stock data for ${symbol}. Please verify the symbol is correct.`,
+      error: unknownSymbolMessage(symbol, suggestions),
       symbol: symbol,
-      suggestions: ['RELIANCE', 'TCS', 'INFY', 'HDFCBANK', 'ICICIBANK', 'SBIN']
+      suggestions: suggestions
     }, { status: 503 });
 
   } catch {
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadInstruments, searchInstruments } from '@/lib/instruments';
+import { Exchange } from '@/lib/market-data';
+
+const MAX_RESULTS = 50;
+
+// Fuzzy symbol search over the instrument master, for the autocomplete on the symbol input
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get('q') || '').trim();
+  
+  if (!query) {
+    return NextResponse.json({
+      success: false,
+      error: 'Missing "q" parameter, e.g. /api/symbols?q=tata'
+    }, { status: 400 });
+  }
+  
+  const rawExchange = searchParams.get('exchange')?.toUpperCase();
+  if (rawExchange && rawExchange !== 'NSE' && rawExchange !== 'BSE') {
+    return NextResponse.json({
+      success: false,
+      error: `Invalid exchange "${rawExchange}". Expected NSE or BSE`
+    }, { status: 400 });
+  }
+  
+  const exchange: Exchange | undefined = rawExchange === 'NSE' || rawExchange === 'BSE' ? rawExchange : undefined;
+  
+  const rawLimit = Number(searchParams.get('limit') || 10);
+  const limit = Number.isInteger(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, MAX_RESULTS) : 10;
+  
+  const results = searchInstruments(await loadInstruments(), query, { exchange, limit });
+  return NextResponse.json({
+    success: true,
+    query: query,
+    results: results
+  });
+}
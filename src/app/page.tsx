@@ -1,194 +1,161 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import StockChart from '@/components/StockChart';
-import { 
-  processStockData,
-  trainLinearRegressionModel,
-  predictNextDay,
-  calculateR2Score,
-  calculateMSE,
-  getPredictionsForData
-} from '@/lib/ml-utils';
-
-// Fast prediction function using statistical analysis
-const fastPredictStock = (stockData: { date: string; price: number; }[]) => {
-  if (stockData.length < 10) {
-    throw new Error('Insufficient data for prediction');
-  }
-
-  const prices = stockData.map(d => d.price);
-  const currentPrice = prices[prices.length - 1];
-  
-  // Calculate moving averages
-  const shortMA = prices.slice(-5).reduce((a, b) => a + b, 0) / 5;
-  const longMA = prices.slice(-20).reduce((a, b) => a + b, 0) / 20;
-  
-  // Calculate trend using linear regression
-  const recentPrices = prices.slice(-10);
-  const n = recentPrices.length;
-  const x = Array.from({length: n}, (_, i) => i);
-  const sumX = x.reduce((a, b) => a + b, 0);
-  const sumY = recentPrices.reduce((a, b) => a + b, 0);
-  const sumXY = x.reduce((acc, xi, i) => acc + xi * recentPrices[i], 0);
-  const sumXX = x.reduce((acc, xi) => acc + xi * xi, 0);
-  
-  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-  const intercept = (sumY - slope * sumX) / n;
-  const nextPrice = slope * n + intercept;
-  
-  // Calculate volatility
-  const returns = prices.slice(1).map((price, i) => (price - prices[i]) / prices[i]);
-  const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
-  const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / returns.length;
-  const volatility = Math.sqrt(variance);
-  
-  const change = nextPrice - currentPrice;
-  const changePercent = (change / currentPrice) * 100;
-  
-  // Calculate confidence based on trend consistency and volatility
-  const trendStrength = Math.abs(slope);
-  const maConsistency = Math.abs(shortMA - longMA) / currentPrice;
-  const baseConfidence = Math.min(90, (trendStrength * 1000 + maConsistency * 100));
-  const volatilityPenalty = Math.min(30, volatility * 500);
-  const confidence = Math.max(45, Math.min(90, baseConfidence - volatilityPenalty));
-  
-  return {
-    currentPrice: parseFloat(currentPrice.toFixed(2)),
-    predictedPrice: parseFloat(nextPrice.toFixed(2)),
-    confidence: parseFloat(confidence.toFixed(1)),
-    trend: Math.abs(change) < currentPrice * 0.005 ? 'stable' as const : 
-           (change > 0 ? 'up' as const : 'down' as const),
-    change: parseFloat(change.toFixed(2)),
-    changePercent: parseFloat(changePercent.toFixed(2))
-  }
-};
+import BacktestPanel, { ModelBacktest } from '@/components/BacktestPanel';
+import DataQualityNotice from '@/components/DataQualityNotice';
+import EnsembleBreakdown from '@/components/EnsembleBreakdown';
+import IndicatorPicker from '@/components/IndicatorPicker';
+import SymbolSearchInput from '@/components/SymbolSearchInput';
+import TuningPanel from '@/components/TuningPanel';
+import WatchlistDashboard, { WatchlistRow } from '@/components/WatchlistDashboard';
+import { IndicatorSpec, loadIndicatorsFromUrl, saveIndicatorsToUrl } from '@/lib/chart-indicators';
+import type { CorporateAdjustment } from '@/lib/corporate-actions';
+import type { DataQualityReport } from '@/lib/data-quality';
+import { DEFAULT_FEATURES } from '@/lib/features';
+import { TrainingCancelledError, TrainingProgress } from '@/lib/ml-utils';
+import { PredictionResult, fastPredictStock } from '@/lib/prediction';
+import { TrainingJob, startNeuralForecast, startNeuralPrediction, startTuning } from '@/lib/training-client';
+import { SearchStrategy, TuningResult, TuningTrial } from '@/lib/tuning';
+import { clearTuning, loadTuning, saveTuning } from '@/lib/tuning-store';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  POPULAR_SYMBOLS,
+  WatchlistItem,
+  loadWatchlist,
+  mergeWatchlist,
+  saveWatchlist,
+  watchlistKey
+} from '@/lib/watchlist';
+import { BacktestWindow, walkForwardBacktest } from '@/lib/backtest';
+import { DEFAULT_MODEL, FORECASTERS, getForecaster } from '@/lib/models/registry';
+import { ModelId } from '@/lib/models/types';
+import {
+  ALLOWED_RANGES,
+  BAR_INTERVALS,
+  BarInterval,
+  Candle,
+  DEFAULT_INTERVAL,
+  DEFAULT_RANGE,
+  Exchange,
+  HISTORY_RANGES,
+  HistoryRange,
+  INTERVAL_LABELS,
+  RANGE_LABELS,
+  isRangeAllowed
+} from '@/lib/market-data';
+import { parseExchangeParts } from '@/lib/symbol-parts';
+import { formatIstDate, futureBarDates } from '@/lib/trading-calendar';
 
-// Enhanced prediction function with ML fallback
-const enhancedPredictStock = async (stockData: { date: string; price: number; }[]) => {
-  try {
-    const fastResult = fastPredictStock(stockData);
-    
-    // Try advanced ML prediction with timeout
-    try {
-      const processedData = processStockData({ 
-        'Time Series (Daily)': stockData.reduce((acc: Record<string, { '4. close': string }>, item: { date: string; price: number }) => {
-          acc[item.date] = { '4. close': item.price.toString() };
-          return acc;
-        }, {})
-      });
-
-      const modelPromise = trainLinearRegressionModel(processedData.xs, processedData.prices);
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('ML timeout')), 8000)
-      );
-      
-      const model = await Promise.race([modelPromise, timeoutPromise]);
-      const predictions = getPredictionsForData(model, processedData.xs);
-      const nextPrice = predictNextDay(model, processedData.xs.length);
-      
-      // Calculate metrics
-      const r2Score = calculateR2Score(processedData.prices, predictions);
-      const mse = calculateMSE(processedData.prices, predictions);
-      
-      const currentPrice = stockData[stockData.length - 1].price;
-      const change = nextPrice - currentPrice;
-      const changePercent = (change / currentPrice) * 100;
-      
-      // Enhanced confidence calculation
-      const baseConfidence = Math.max(0, Math.min(100, r2Score * 100));
-      const mseConfidence = Math.max(0, 100 - (mse / currentPrice) * 100);
-      const volatility = calculateVolatility(processedData.prices);
-      const volatilityPenalty = Math.min(20, volatility * 10);
-      
-      const confidence = Math.max(40, Math.min(95, 
-        (baseConfidence * 0.6) + (mseConfidence * 0.4) - volatilityPenalty
-      ));
-      
-      return {
-        currentPrice: parseFloat(currentPrice.toFixed(2)),
-        predictedPrice: parseFloat(nextPrice.toFixed(2)),
-        confidence: parseFloat(confidence.toFixed(1)),
-        trend: Math.abs(change) < currentPrice * 0.005 ? 'stable' as const : 
-               (change > 0 ? 'up' as const : 'down' as const),
-        change: parseFloat(change.toFixed(2)),
-        changePercent: parseFloat(changePercent.toFixed(2))
-      };
-      
-    } catch {
-      return fastResult;
-    }
-    
-  } catch (error) {
-    throw error;
-  }
-};
+type StockData = Candle;
+
+const FORECAST_HORIZONS = [1, 5, 10, 20];
 
-// Helper function to calculate volatility
-const calculateVolatility = (prices: number[]): number => {
-  if (prices.length < 2) return 0;
-  const returns = prices.slice(1).map((price, i) => (price - prices[i]) / prices[i]);
-  const meanReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - meanReturn, 2), 0) / returns.length;
-  return Math.sqrt(variance);
+const TRAINING_PHASE_LABELS: Record<TrainingProgress['phase'], string> = {
+  initial: 'Initial training',
+  finetune: 'Fine-tuning',
+  train: 'Training'
 };
 
-interface StockData {
-  date: string;
-  price: number;
-}
+// Watchlist symbols fetched and predicted at once, and closes shown in each sparkline
+const WATCHLIST_CONCURRENCY = 4;
+const SPARKLINE_BARS = 60;
 
-interface PredictionResult {
-  currentPrice: number;
-  predictedPrice: number;
-  confidence: number;
-  trend: 'up' | 'down' | 'stable';
-  change: number;
-  changePercent: number;
-}
+// Only closed-form models are quick enough to run for a whole watchlist
+const WATCHLIST_MODELS = FORECASTERS.filter(forecaster => forecaster.runtime === 'main');
+
+// Neural training runs in a worker, so it can take longer than the old 8s budget
+// without freezing the page; past this the statistical result is shown instead
+const NEURAL_TIMEOUT_MS = 30000;
+
+// The typed symbol as sent to the stock API. The exchange toggle only applies when the
+// input does not name an exchange itself (RELIANCE.NS, BSE:500325); the server reports
+// a conflict or a bad suffix, so unparsable input is passed through as typed.
+const symbolRequest = (input: string, exchange: Exchange): { symbol: string; exchange: Exchange | null; label: string } => {
+  const symbol = input.trim().toUpperCase();
+  const parsed = parseExchangeParts(symbol);
+  return 'error' in parsed || parsed.exchange
+    ? { symbol, exchange: null, label: symbol }
+    : { symbol, exchange, label: `${symbol}.${exchange}` };
+};
 
 export default function Home() {
   const [stockSymbol, setStockSymbol] = useState('');
   const [loading, setLoading] = useState(false);
+  const [training, setTraining] = useState(false);
+  const [trainingProgress, setTrainingProgress] = useState<TrainingProgress | null>(null);
+  const [activeSymbol, setActiveSymbol] = useState('');
+  // Exchange the server resolved the active symbol to
+  const [activeExchange, setActiveExchange] = useState<Exchange>('NSE');
   const [error, setError] = useState('');
+  // "Did you mean" tickers from the stock API when a symbol has no data
+  const [errorSuggestions, setErrorSuggestions] = useState<string[]>([]);
   const [stockData, setStockData] = useState<StockData[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAdjustment[]>([]);
+  const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+  const [indicators, setIndicators] = useState<IndicatorSpec[]>([]);
   const [prediction, setPrediction] = useState<PredictionResult | null>(null);
   const [selectedExchange, setSelectedExchange] = useState<'NSE' | 'BSE'>('NSE');
+  const [historyRange, setHistoryRange] = useState<HistoryRange>(DEFAULT_RANGE);
+  const [barInterval, setBarInterval] = useState<BarInterval>(DEFAULT_INTERVAL);
+  const [horizon, setHorizon] = useState(5);
+  const [modelId, setModelId] = useState<ModelId>(DEFAULT_MODEL);
+  const [backtestModels, setBacktestModels] = useState<ModelId[]>(['naive', 'statistical', DEFAULT_MODEL]);
+  const [backtests, setBacktests] = useState<ModelBacktest[]>([]);
+  const [backtesting, setBacktesting] = useState(false);
+  const [backtestProgress, setBacktestProgress] = useState('');
+  const [backtestWindow, setBacktestWindow] = useState<BacktestWindow>('expanding');
+  const [tuning, setTuning] = useState(false);
+  const [tuningTrials, setTuningTrials] = useState<TuningTrial[]>([]);
+  const [tuningProgress, setTuningProgress] = useState('');
+  const [tuningStrategy, setTuningStrategy] = useState<SearchStrategy>('random');
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [watchlistRows, setWatchlistRows] = useState<Record<string, WatchlistRow>>({});
+  const [watchlistRunning, setWatchlistRunning] = useState(false);
+  const [watchlistProgress, setWatchlistProgress] = useState('');
+  const [watchlistModel, setWatchlistModel] = useState<ModelId>('statistical');
+  // Saved tuning lives in localStorage; bumping this re-renders so it is read again
+  const [, setTuningVersion] = useState(0);
+  // In-flight worker jobs, and why the prediction job was cancelled
+  const predictionJob = useRef<TrainingJob<PredictionResult> | null>(null);
+  const backtestJob = useRef<TrainingJob<number[]> | null>(null);
+  const tuningJob = useRef<TrainingJob<TuningResult> | null>(null);
+  const cancelReason = useRef<'timeout' | 'user' | 'superseded' | null>(null);
+  const requestCounter = useRef(0);
+  const [loadedHistory, setLoadedHistory] = useState<{ range: HistoryRange; interval: BarInterval }>({
+    range: DEFAULT_RANGE,
+    interval: DEFAULT_INTERVAL
+  });
 
-  // Helper function to get next trading day
-  const getNextTradingDay = (lastDate: string): string => {
-    const date = new Date(lastDate);
-    date.setDate(date.getDate() + 1);
-    
-    // Skip weekends (Saturday = 6, Sunday = 0)
-    while (date.getDay() === 0 || date.getDay() === 6) {
-      date.setDate(date.getDate() + 1);
-    }
-    
-    return date.toISOString().split('T')[0];
+  // The watchlist is stored in the browser, so it can only be read after mounting
+  useEffect(() => {
+    setWatchlist(loadWatchlist());
+  }, []);
+
+  const updateWatchlist = (items: WatchlistItem[]) => {
+    setWatchlist(items);
+    saveWatchlist(items);
   };
 
-  // Generate realistic historical predictions based on actual price trends
-  const generateHistoricalPredictions = (stockData: StockData[]): number[] => {
-    if (stockData.length === 0) return [];
-    
-    const predictions: number[] = [];
-    const prices = stockData.map(d => d.price);
-    
-    // Use a simple moving average with slight lag to simulate model predictions
-    for (let i = 0; i < prices.length; i++) {
-      if (i < 5) {
-        // For early data points, use slight variation
-        predictions.push(prices[i] * (0.99 + Math.random() * 0.02));
-      } else {
-        // Use moving average of previous 5 points with small error
-        const ma5 = prices.slice(i - 5, i).reduce((sum, price) => sum + price, 0) / 5;
-        const error = (Math.random() - 0.5) * 0.03; // ±1.5% error
-        predictions.push(ma5 * (1 + error));
-      }
+  // Chart indicators are kept in the URL so a configured chart can be bookmarked or shared
+  useEffect(() => {
+    setIndicators(loadIndicatorsFromUrl());
+  }, []);
+
+  const updateIndicators = (specs: IndicatorSpec[]) => {
+    setIndicators(specs);
+    saveIndicatorsToUrl(specs);
+  };
+
+  // Inputs stay usable while the worker trains, so a new symbol can replace the job
+  const inputsLocked = loading && !training;
+
+  // Keep the range valid when switching to an interval that doesn't support it
+  const handleIntervalChange = (interval: BarInterval) => {
+    setBarInterval(interval);
+    if (!isRangeAllowed(historyRange, interval)) {
+      setHistoryRange(ALLOWED_RANGES[interval][0]);
     }
-    
-    return predictions;
   };
 
   const handlePredict = async () => {
@@ -197,21 +164,43 @@ export default function Home() {
       return;
     }
 
+    // A new request supersedes whatever is still training
+    cancelReason.current = 'superseded';
+    predictionJob.current?.cancel();
+    backtestJob.current?.cancel();
+    tuningJob.current?.cancel();
+    const requestId = ++requestCounter.current;
+
     setLoading(true);
+    setTraining(false);
+    setTrainingProgress(null);
     setError('');
+    setErrorSuggestions([]);
     setPrediction(null);
     setStockData([]);
+    setCorporateActions([]);
+    setDataQuality(null);
+    setBacktests([]);
 
     try {
-      const symbol = `${stockSymbol.toUpperCase()}.${selectedExchange}`;
-      const response = await fetch(`/api/stock?symbol=${symbol}`);
+      const request = symbolRequest(stockSymbol, selectedExchange);
+      setActiveSymbol(request.label);
+      const params = new URLSearchParams({ symbol: request.symbol, range: historyRange, interval: barInterval });
+      if (request.exchange) {
+        params.set('exchange', request.exchange);
+      }
+      const response = await fetch(`/api/stock?${params.toString()}`);
       const data = await response.json();
+      if (requestId !== requestCounter.current) return;
       
       if (!response.ok) {
-        if (response.status === 503) {
-          throw new Error(`Unable to fetch real stock data for ${symbol}. The stock symbol might be incorrect or the data providers are currently unavailable. Please verify the symbol and try again later.`);
+        if (response.status === 503 && data.suggestions?.length > 0) {
+          setErrorSuggestions(data.suggestions);
+          throw new Error(`No data found for ${request.label}. Did you mean one of these?`);
+        } else if (response.status === 503) {
+          throw new Error(`Unable to fetch real stock data for ${request.label}. The stock symbol might be incorrect or the data providers are currently unavailable. Please verify the symbol and try again later.`);
         } else if (response.status === 500) {
-          throw new Error(`Server error while fetching ${symbol} data: ${data.error || 'Internal server error'}`);
+          throw new Error(`Server error while fetching ${request.label} data: ${data.error || 'Internal server error'}`);
         }
         throw new Error(data.error || 'Failed to fetch stock data');
       }
@@ -221,27 +210,230 @@ export default function Home() {
       }
 
       if (!data.stockData || data.stockData.length === 0) {
-        throw new Error(`No stock data available for ${symbol}. Please check if the symbol is correct.`);
+        throw new Error(`No stock data available for ${request.label}. Please check if the symbol is correct.`);
       }
 
+      // Labels, saved models and tuning use the symbol as the server resolved it
+      const symbol: string = data.symbol;
+      setActiveSymbol(symbol);
+      setActiveExchange(data.exchange);
       setStockData(data.stockData);
+      setCorporateActions(data.corporateActions ?? []);
+      setDataQuality(data.dataQuality ?? null);
+      setLoadedHistory({ range: data.range ?? historyRange, interval: data.interval ?? barInterval });
+      
+      // Statistical result first, so there is always something to fall back to
+      const fastResult = fastPredictStock(data.stockData, horizon);
+      const forecaster = getForecaster(modelId);
+      
+      // Closed-form models are quick enough for the main thread
+      if (forecaster.runtime === 'main') {
+        try {
+          const result = await forecaster.predict(data.stockData, horizon);
+          if (requestId !== requestCounter.current) return;
+          setPrediction(result);
+        } catch (err) {
+          if (requestId !== requestCounter.current) return;
+          const reason = `${forecaster.label} failed: ${err instanceof Error ? err.message : 'unknown error'}.`;
+          setPrediction({ ...fastResult, fallbackReason: `${reason} Showing the statistical model instead.` });
+        }
+        return;
+      }
       
-      // Use enhanced prediction with timeout
-      const predictionPromise = enhancedPredictStock(data.stockData);
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Prediction timeout - using statistical analysis')), 12000)
-      );
+      // Train the network in the worker, streaming progress to the loading panel
+      setTraining(true);
+      cancelReason.current = null;
+      // Saved per symbol and window, so repeat visits only fine-tune on new bars
+      const modelKey = `${symbol}:${data.range ?? historyRange}:${data.interval ?? barInterval}`;
+      // Settings from an earlier "Tune" run on this symbol, if any
+      const tuned = loadTuning(symbol, modelId);
+      const job = startNeuralPrediction(modelId, data.stockData, horizon, setTrainingProgress, modelKey, tuned?.best);
+      predictionJob.current = job;
+      const timer = setTimeout(() => {
+        cancelReason.current = 'timeout';
+        job.cancel();
+      }, NEURAL_TIMEOUT_MS);
       
-      const predictionResult = await Promise.race([predictionPromise, timeoutPromise]);
-      setPrediction(predictionResult);
+      try {
+        const result = await job.promise;
+        if (requestId !== requestCounter.current) return;
+        setPrediction(result);
+      } catch (err) {
+        if (requestId !== requestCounter.current) return;
+        
+        const reason = err instanceof TrainingCancelledError
+          ? cancelReason.current === 'timeout'
+            ? `Neural training did not finish within ${NEURAL_TIMEOUT_MS / 1000}s.`
+            : 'Neural training was cancelled.'
+          : `${forecaster.label} failed: ${err instanceof Error ? err.message : 'unknown error'}.`;
+        setPrediction({ ...fastResult, fallbackReason: `${reason} Showing the statistical model instead.` });
+      } finally {
+        clearTimeout(timer);
+        if (predictionJob.current === job) {
+          predictionJob.current = null;
+        }
+      }
 
     } catch (err) {
+      if (requestId !== requestCounter.current) return;
       setError(err instanceof Error ? err.message : 'An error occurred while predicting stock price');
     } finally {
-      setLoading(false);
+      if (requestId === requestCounter.current) {
+        setLoading(false);
+        setTraining(false);
+        setTrainingProgress(null);
+      }
+    }
+  };
+
+  // Stop neural training early and fall back to the statistical result
+  const handleCancelTraining = () => {
+    cancelReason.current = 'user';
+    predictionJob.current?.cancel();
+  };
+
+  const toggleBacktestModel = (id: ModelId) => {
+    setBacktestModels(current =>
+      current.includes(id) ? current.filter(model => model !== id) : [...current, id]
+    );
+  };
+
+  // Walk-forward evaluation of the chosen models on the loaded series. Networks are
+  // retrained in the worker at every origin, so they get fewer origins.
+  const handleBacktest = async () => {
+    if (stockData.length === 0) return;
+    
+    // Loading another symbol, range or model starts a new request; results computed for
+    // the old series are dropped
+    const requestId = requestCounter.current;
+    const isStale = () => requestId !== requestCounter.current;
+    setBacktesting(true);
+    setBacktests([]);
+    
+    try {
+      const steps = prediction?.horizon ?? horizon;
+      const models = FORECASTERS.filter(forecaster => backtestModels.includes(forecaster.id));
+      
+      const results: ModelBacktest[] = [];
+      for (const forecaster of models) {
+        if (isStale()) return;
+        const forecast = forecaster.runtime === 'main'
+          ? forecaster.forecast
+          : (history: Candle[], h: number) => {
+              const job = startNeuralForecast(forecaster.id, history, h);
+              backtestJob.current = job;
+              return job.promise;
+            };
+        const result = await walkForwardBacktest(stockData, forecast, {
+          horizon: steps,
+          window: backtestWindow,
+          minTrainSize: Math.max(forecaster.minHistory, 30, Math.floor(stockData.length * 0.6)),
+          maxFolds: forecaster.runtime === 'main' ? 30 : 5,
+          onFold: (completed, total) => {
+            if (!isStale()) {
+              setBacktestProgress(`${forecaster.label}: origin ${completed} of ${total}`);
+            }
+          }
+        });
+        if (isStale()) return;
+        results.push({ model: forecaster.label, result });
+        setBacktests([...results]);
+      }
+    } catch (err) {
+      if (!isStale() && !(err instanceof TrainingCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Backtest failed');
+      }
+    } finally {
+      backtestJob.current = null;
+      setBacktesting(false);
+      setBacktestProgress('');
+    }
+  };
+
+  // Fetch and predict every watchlist symbol with the chosen closed-form model, a few
+  // requests at a time; each row updates as soon as its symbol finishes
+  const handlePredictWatchlist = async () => {
+    const items = watchlist;
+    if (items.length === 0) return;
+    
+    const forecaster = getForecaster(watchlistModel);
+    setWatchlistRunning(true);
+    setWatchlistRows(Object.fromEntries(items.map(item => [watchlistKey(item), { status: 'loading' }])));
+    let completed = 0;
+    setWatchlistProgress(`0 of ${items.length} symbols`);
+    
+    await mapWithConcurrency(items, WATCHLIST_CONCURRENCY, async item => {
+      const key = watchlistKey(item);
+      let row: WatchlistRow;
+      try {
+        const params = new URLSearchParams({ symbol: key, range: historyRange, interval: barInterval });
+        const response = await fetch(`/api/stock?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok || !data.success || !data.stockData?.length) {
+          throw new Error(data.error || `No data for ${key}`);
+        }
+        const candles: Candle[] = data.stockData;
+        row = {
+          status: 'done',
+          closes: candles.slice(-SPARKLINE_BARS).map(candle => candle.close),
+          prediction: await forecaster.predict(candles, horizon)
+        };
+      } catch (err) {
+        row = { status: 'error', error: err instanceof Error ? err.message : 'Prediction failed' };
+      }
+      setWatchlistRows(current => ({ ...current, [key]: row }));
+      setWatchlistProgress(`${++completed} of ${items.length} symbols`);
+    });
+    
+    setWatchlistRunning(false);
+    setWatchlistProgress('');
+  };
+
+  // Load a watchlist symbol into the single-symbol form
+  const handleSelectWatchlistItem = (item: WatchlistItem) => {
+    setStockSymbol(item.symbol);
+    setSelectedExchange(item.exchange);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Opt-in hyperparameter search for the selected network on the loaded series; the best
+  // settings are saved per symbol and picked up by the next prediction
+  const handleTune = async () => {
+    if (stockData.length === 0) return;
+    
+    const model = modelId;
+    const symbol = activeSymbol;
+    setTuning(true);
+    setTuningTrials([]);
+    setTuningProgress('Evaluating the default settings');
+    
+    const job = startTuning(model, stockData, tuningStrategy, (trial, completed, total) => {
+      setTuningTrials(current => [...current, trial]);
+      setTuningProgress(`Configuration ${completed} of ${total} scored`);
+    });
+    tuningJob.current = job;
+    
+    try {
+      saveTuning(symbol, model, await job.promise);
+      setTuningVersion(version => version + 1);
+    } catch (err) {
+      if (!(err instanceof TrainingCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Tuning failed');
+      }
+    } finally {
+      if (tuningJob.current === job) {
+        tuningJob.current = null;
+        setTuning(false);
+        setTuningProgress('');
+      }
     }
   };
 
+  const handleResetTuning = () => {
+    clearTuning(activeSymbol, modelId);
+    setTuningVersion(version => version + 1);
+  };
+
   const getTrendColor = (trend: string) => {
     switch (trend) {
       case 'up': return 'text-green-600';
@@ -280,12 +472,29 @@ export default function Home() {
               <span>Real-time Data</span>
             </div>
             <span>•</span>
-            <span>9-Feature Neural Network</span>
+            <span>{DEFAULT_FEATURES.length}-Feature Neural Network</span>
             <span>•</span>
             <span>95% Accuracy</span>
           </div>
         </div>
 
+        <div className="mb-8">
+          <WatchlistDashboard
+            items={watchlist}
+            rows={watchlistRows}
+            running={watchlistRunning}
+            progress={watchlistProgress}
+            defaultExchange={selectedExchange}
+            models={WATCHLIST_MODELS}
+            model={watchlistModel}
+            onModelChange={setWatchlistModel}
+            onAdd={items => updateWatchlist(mergeWatchlist(watchlist, items))}
+            onRemove={item => updateWatchlist(watchlist.filter(entry => watchlistKey(entry) !== watchlistKey(item)))}
+            onRun={handlePredictWatchlist}
+            onSelect={handleSelectWatchlistItem}
+          />
+        </div>
+
         <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-2xl border border-white/20 p-8 mb-8">
           <div className="space-y-8">
             {/* Exchange Toggle */}
@@ -298,12 +507,12 @@ export default function Home() {
               <div className="grid grid-cols-2 gap-4">
                 <button
                   onClick={() => setSelectedExchange('NSE')}
-                  disabled={loading}
+                  disabled={inputsLocked}
                   className={`group relative p-6 rounded-xl transition-all duration-300 ${
                     selectedExchange === 'NSE'
                       ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-xl transform scale-105'
                       : 'bg-white border-2 border-gray-200 text-gray-700 hover:border-blue-300 hover:shadow-lg hover:scale-102'
-                  } ${loading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                  } ${inputsLocked ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
                 >
                   <div className="flex flex-col items-center space-y-3">
                     <div className={`text-4xl transition-transform duration-300 group-hover:scale-110`}>
@@ -325,12 +534,12 @@ export default function Home() {
                 
                 <button
                   onClick={() => setSelectedExchange('BSE')}
-                  disabled={loading}
+                  disabled={inputsLocked}
                   className={`group relative p-6 rounded-xl transition-all duration-300 ${
                     selectedExchange === 'BSE'
                       ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-xl transform scale-105'
                       : 'bg-white border-2 border-gray-200 text-gray-700 hover:border-blue-300 hover:shadow-lg hover:scale-102'
-                  } ${loading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                  } ${inputsLocked ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
                 >
                   <div className="flex flex-col items-center space-y-3">
                     <div className={`text-4xl transition-transform duration-300 group-hover:scale-110`}>
@@ -358,6 +567,81 @@ export default function Home() {
               </div>
             </div>
 
+            {/* History Range, Interval & Horizon */}
+            <div className="space-y-4">
+              <div className="flex items-center space-x-3 mb-4">
+                <div className="w-1 h-6 bg-gradient-to-b from-blue-600 to-indigo-600 rounded-full"></div>
+                <h2 className="text-xl font-bold text-gray-800">History &amp; Forecast</h2>
+              </div>
+              
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700">Interval</span>
+                  <select
+                    value={barInterval}
+                    onChange={(e) => handleIntervalChange(e.target.value as BarInterval)}
+                    disabled={inputsLocked}
+                    className="mt-2 w-full px-4 py-3 text-lg font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-200 focus:outline-none transition-all disabled:opacity-50"
+                  >
+                    {BAR_INTERVALS.map(interval => (
+                      <option key={interval} value={interval}>
+                        {INTERVAL_LABELS[interval]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700">Range</span>
+                  <select
+                    value={historyRange}
+                    onChange={(e) => setHistoryRange(e.target.value as HistoryRange)}
+                    disabled={inputsLocked}
+                    className="mt-2 w-full px-4 py-3 text-lg font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-200 focus:outline-none transition-all disabled:opacity-50"
+                  >
+                    {HISTORY_RANGES.map(range => (
+                      <option key={range} value={range} disabled={!isRangeAllowed(range, barInterval)}>
+                        {RANGE_LABELS[range]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700">Forecast Horizon</span>
+                  <select
+                    value={horizon}
+                    onChange={(e) => setHorizon(Number(e.target.value))}
+                    disabled={inputsLocked}
+                    className="mt-2 w-full px-4 py-3 text-lg font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-200 focus:outline-none transition-all disabled:opacity-50"
+                  >
+                    {FORECAST_HORIZONS.map(steps => (
+                      <option key={steps} value={steps}>
+                        {steps === 1 ? '1 bar ahead' : `${steps} bars ahead`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700">Model</span>
+                  <select
+                    value={modelId}
+                    onChange={(e) => setModelId(e.target.value as ModelId)}
+                    disabled={inputsLocked}
+                    className="mt-2 w-full px-4 py-3 text-lg font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-200 focus:outline-none transition-all disabled:opacity-50"
+                  >
+                    {FORECASTERS.map(forecaster => (
+                      <option key={forecaster.id} value={forecaster.id}>
+                        {forecaster.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <p className="text-sm text-gray-600">{getForecaster(modelId).description}</p>
+            </div>
+
             {/* Stock Symbol Input Section */}
             <div className="space-y-4">
               <div className="flex items-center space-x-3 mb-4">
@@ -366,46 +650,34 @@ export default function Home() {
               </div>
               
               <div className="space-y-4">
-                <div className="relative">
-                  <div className="absolute left-4 top-1/2 transform -translate-y-1/2 text-2xl">
-                    📈
-                  </div>
-                  <input
-                    id="stockSymbol"
-                    type="text"
-                    value={stockSymbol}
-                    onChange={(e) => setStockSymbol(e.target.value.toUpperCase())}
-                    onKeyPress={(e) => e.key === 'Enter' && handlePredict()}
-                    placeholder="ENTER STOCK SYMBOL"
-                    className="w-full pl-16 pr-20 py-5 text-2xl font-bold text-gray-900 bg-white border-4 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-200 focus:outline-none transition-all placeholder-gray-400 shadow-inner"
-                    style={{ 
-                      textTransform: 'uppercase',
-                      letterSpacing: '0.1em'
-                    }}
-                    disabled={loading}
-                  />
-                  <div className="absolute right-4 top-1/2 transform -translate-y-1/2">
-                    <div className="bg-blue-100 text-blue-800 px-3 py-1 rounded-lg text-sm font-semibold">
-                      .{selectedExchange}
-                    </div>
-                  </div>
-                </div>
+                <SymbolSearchInput
+                  value={stockSymbol}
+                  exchange={selectedExchange}
+                  onChange={setStockSymbol}
+                  onSubmit={handlePredict}
+                  disabled={inputsLocked}
+                />
                 
                 <button
                   onClick={handlePredict}
-                  disabled={loading || !stockSymbol.trim()}
+                  disabled={inputsLocked || !stockSymbol.trim()}
                   className={`w-full py-5 rounded-xl font-bold text-xl transition-all duration-300 ${
-                    loading 
+                    inputsLocked 
                       ? 'bg-blue-400 text-white cursor-not-allowed'
                       : !stockSymbol.trim()
                       ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                       : 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95'
                   }`}
                 >
-                  {loading ? (
+                  {inputsLocked ? (
                     <div className="flex items-center justify-center space-x-3">
                       <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
-                      <span>Analyzing {stockSymbol}.{selectedExchange}...</span>
+                      <span>Analyzing {symbolRequest(stockSymbol, selectedExchange).label}...</span>
+                    </div>
+                  ) : training ? (
+                    <div className="flex items-center justify-center space-x-3">
+                      <span>🔁</span>
+                      <span>PREDICT {symbolRequest(stockSymbol, selectedExchange).label} (STOPS CURRENT TRAINING)</span>
                     </div>
                   ) : (
                     <div className="flex items-center justify-center space-x-3">
@@ -423,14 +695,11 @@ export default function Home() {
                   🔥 Popular {selectedExchange} Stocks - Click to Select:
                 </div>
                 <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
-                  {(selectedExchange === 'NSE' 
-                    ? ['RELIANCE', 'TCS', 'INFY', 'HDFCBANK', 'ICICIBANK']
-                    : ['RELIANCE', 'TCS', 'WIPRO', 'BHARTIARTL', 'MARUTI']
-                  ).map(stock => (
+                  {POPULAR_SYMBOLS[selectedExchange].map(stock => (
                     <button
                       key={stock}
                       onClick={() => setStockSymbol(stock)}
-                      disabled={loading}
+                      disabled={inputsLocked}
                       className={`px-4 py-3 rounded-lg text-sm font-bold transition-all duration-200 ${
                         stockSymbol === stock
                           ? 'bg-blue-600 text-white shadow-lg transform scale-105'
@@ -452,6 +721,23 @@ export default function Home() {
                 <div>
                   <h3 className="text-lg font-semibold text-red-800 mb-1">Prediction Error</h3>
                   <p className="text-red-600">{error}</p>
+                  {errorSuggestions.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {errorSuggestions.map(suggestion => (
+                        <button
+                          key={suggestion}
+                          onClick={() => {
+                            setStockSymbol(suggestion);
+                            setError('');
+                            setErrorSuggestions([]);
+                          }}
+                          className="px-3 py-1 rounded-lg text-sm font-bold text-red-700 bg-white border border-red-200 hover:bg-red-50"
+                        >
+                          {suggestion}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -475,10 +761,46 @@ export default function Home() {
                   AI Model Processing
                 </h3>
                 <p className="text-lg text-gray-600">
-                  Training 9-feature neural network for <span className="font-semibold text-blue-600">{stockSymbol}.{selectedExchange}</span>
+                  {training ? `Training ${getForecaster(modelId).label} for` : 'Fetching data for'} <span className="font-semibold text-blue-600">{activeSymbol}</span>
                 </p>
               </div>
               
+              {training && (
+                <div className="max-w-md mx-auto space-y-3">
+                  {trainingProgress ? (
+                    <>
+                      <div className="flex justify-between text-sm text-gray-600">
+                        <span>{TRAINING_PHASE_LABELS[trainingProgress.phase]}</span>
+                        <span>Epoch {trainingProgress.epoch} / {trainingProgress.totalEpochs}</span>
+                      </div>
+                      <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className="absolute top-0 left-0 h-full bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full transition-all duration-300"
+                          style={{
+                            width: `${(trainingProgress.phase === 'train'
+                              ? (trainingProgress.epoch / trainingProgress.totalEpochs) * 100
+                              : (trainingProgress.phase === 'initial' ? 0 : 50) + (trainingProgress.epoch / trainingProgress.totalEpochs) * 50
+                            ).toFixed(1)}%`
+                          }}
+                        ></div>
+                      </div>
+                      <div className="flex justify-between text-xs font-mono text-gray-500">
+                        <span>loss {trainingProgress.loss.toFixed(5)}</span>
+                        <span>val_loss {trainingProgress.valLoss !== undefined ? trainingProgress.valLoss.toFixed(5) : '—'}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500">Starting training worker…</p>
+                  )}
+                  <button
+                    onClick={handleCancelTraining}
+                    className="px-4 py-2 rounded-lg text-sm font-semibold text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+                  >
+                    Stop training and use statistical model
+                  </button>
+                </div>
+              )}
+              
               <div className="bg-blue-50 rounded-xl p-4 max-w-md mx-auto">
                 <div className="grid grid-cols-3 gap-4 text-sm">
                   <div className="text-center">
@@ -513,6 +835,25 @@ export default function Home() {
                 </div>
                 
                 <div className="space-y-6">
+                  {prediction.fallbackReason && (
+                    <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl flex items-start space-x-2">
+                      <span className="text-amber-600 mt-0.5">⚠️</span>
+                      <div className="text-sm">
+                        <span className="font-semibold text-amber-800">Statistical fallback:</span>
+                        <span className="text-amber-700"> {prediction.fallbackReason}</span>
+                      </div>
+                    </div>
+                  )}
+                  {dataQuality?.status === 'broken' && (
+                    <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-start space-x-2">
+                      <span className="text-red-600 mt-0.5">🚨</span>
+                      <div className="text-sm">
+                        <span className="font-semibold text-red-800">Trained on a broken series:</span>
+                        <span className="text-red-700"> the price history has gaps or suspicious bars (see the chart below), so this prediction may be unreliable.</span>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Price Comparison Cards */}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                     <div className="group relative overflow-hidden bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-6 hover:shadow-lg transition-all duration-300">
@@ -525,7 +866,7 @@ export default function Home() {
                         <p className="text-3xl font-bold text-gray-800">
                           ₹{prediction.currentPrice.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                         </p>
-                        <p className="text-xs text-gray-500 mt-1">{stockSymbol}.{selectedExchange}</p>
+                        <p className="text-xs text-gray-500 mt-1">{activeSymbol}</p>
                       </div>
                     </div>
                     
@@ -539,7 +880,19 @@ export default function Home() {
                         <p className="text-3xl font-bold text-blue-700">
                           ₹{prediction.predictedPrice.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                         </p>
-                        <p className="text-xs text-blue-500 mt-1">Next trading day</p>
+                        <p className="text-xs text-blue-500 mt-1">
+                          {prediction.horizon === 1
+                            ? `Next ${loadedHistory.interval === '1d' ? 'trading day' : 'bar'}`
+                            : `In ${prediction.horizon} ${loadedHistory.interval === '1d' ? 'trading days' : 'bars'}`}
+                          {' '}({formatIstDate(futureBarDates(stockData[stockData.length - 1].date, loadedHistory.interval, prediction.horizon, activeExchange)[prediction.horizon - 1])})
+                        </p>
+                        {prediction.intervals.map(interval => (
+                          <p key={interval.level} className="text-xs text-blue-600 mt-1">
+                            {Math.round(interval.level * 100)}% range: ₹{interval.lower[interval.lower.length - 1].toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                            {' – '}
+                            ₹{interval.upper[interval.upper.length - 1].toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          </p>
+                        ))}
                       </div>
                     </div>
                   </div>
@@ -578,6 +931,14 @@ export default function Home() {
                     </div>
                   </div>
 
+                  {prediction.ensemble && (
+                    <EnsembleBreakdown
+                      members={prediction.ensemble}
+                      currentPrice={prediction.currentPrice}
+                      predictedPrice={prediction.predictedPrice}
+                    />
+                  )}
+
                   {/* Advanced Confidence Meter */}
                   <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-xl p-6 border border-green-200">
                     <div className="flex items-center justify-between mb-4">
@@ -646,7 +1007,19 @@ export default function Home() {
                           <span>🤖</span>
                           <span className="font-semibold text-gray-700">AI Model</span>
                         </div>
-                        <p className="text-gray-600">9-feature neural network with 64→32→16→1 architecture</p>
+                        <p className="text-gray-600">
+                          {getForecaster(prediction.model).description}
+                        </p>
+                        {prediction.training && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {prediction.training.mode === 'trained'
+                              ? 'Trained from scratch and saved for next time'
+                              : prediction.training.mode === 'fine-tuned'
+                                ? `Saved model fine-tuned on ${prediction.training.newBars} new bar${prediction.training.newBars === 1 ? '' : 's'}`
+                                : 'Saved model reused; no new bars since it was trained'}
+                            {' '}(first trained {new Date(prediction.training.trainedAt).toLocaleDateString()})
+                          </p>
+                        )}
                       </div>
                       
                       <div className="bg-white rounded-lg p-4">
@@ -654,7 +1027,7 @@ export default function Home() {
                           <span>📊</span>
                           <span className="font-semibold text-gray-700">Data Source</span>
                         </div>
-                        <p className="text-gray-600">{selectedExchange} real-time market data with advanced preprocessing</p>
+                        <p className="text-gray-600">{activeExchange} real-time market data with advanced preprocessing</p>
                       </div>
                       
                       <div className="bg-white rounded-lg p-4">
@@ -662,7 +1035,7 @@ export default function Home() {
                           <span>⚙️</span>
                           <span className="font-semibold text-gray-700">Features</span>
                         </div>
-                        <p className="text-gray-600">Moving averages, momentum, volatility, seasonal patterns</p>
+                        <p className="text-gray-600">Returns, moving-average ratios, RSI, MACD, Bollinger %B, ATR, OBV and volatility</p>
                       </div>
                     </div>
                     
@@ -694,36 +1067,73 @@ export default function Home() {
                   <div className="flex items-center space-x-3">
                     <div className="bg-gradient-to-r from-blue-50 to-indigo-50 px-4 py-2 rounded-full border border-blue-200">
                       <div className="flex items-center space-x-2">
-                        <span className="text-sm font-bold text-blue-700">{stockSymbol}.{selectedExchange}</span>
+                        <span className="text-sm font-bold text-blue-700">{activeSymbol}</span>
                         <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
                       </div>
                     </div>
                   </div>
                 </div>
+                {dataQuality && <DataQualityNotice report={dataQuality} />}
+                <IndicatorPicker indicators={indicators} onChange={updateIndicators} />
                 <StockChart 
-                  dates={stockData.map(d => d.date)}
-                  actualPrices={stockData.map(d => d.price)}
-                  predictedPrices={prediction ? (() => {
-                    const predictions = generateHistoricalPredictions(stockData);
-
-                    return predictions;
-                  })() : []}
-                  futureDates={prediction ? (() => {
-                    const nextDate = getNextTradingDay(stockData[stockData.length - 1].date);
-
-                    return [nextDate];
-                  })() : []}
-                  futurePredictions={prediction ? [prediction.predictedPrice] : []}
-                  symbol={`${stockSymbol.toUpperCase()}.${selectedExchange}`}
+                  candles={stockData}
+                  predictedPrices={prediction ? prediction.historicalFit.values : []}
+                  predictionLabel={prediction?.historicalFit.label}
+                  futureDates={prediction
+                    ? futureBarDates(stockData[stockData.length - 1].date, loadedHistory.interval, prediction.horizon, activeExchange)
+                    : []}
+                  futurePredictions={prediction ? prediction.forecast : []}
+                  futureIntervals={prediction ? prediction.intervals : []}
+                  corporateActions={corporateActions}
+                  indicators={indicators}
+                  symbol={activeSymbol}
                 />
                 <p className="text-xs text-gray-500 mt-2 text-center">
-                  Historical data from {selectedExchange} • Latest 100 trading days
+                  Historical data from {activeExchange} • {stockData.length} {INTERVAL_LABELS[loadedHistory.interval].toLowerCase()} bars over {RANGE_LABELS[loadedHistory.range].toLowerCase()}
+                  {corporateActions.some(action => action.status === 'applied') && (
+                    <> • back-adjusted for {corporateActions.filter(action => action.status === 'applied').length} corporate action(s), marked ▲</>
+                  )}
                 </p>
               </div>
             )}
           </div>
         )}
 
+        {stockData.length > 0 && !loading && (
+          <div className="mt-8">
+            <BacktestPanel
+              backtests={backtests}
+              running={backtesting}
+              progress={backtestProgress}
+              window={backtestWindow}
+              onWindowChange={setBacktestWindow}
+              onRun={handleBacktest}
+              models={FORECASTERS}
+              selectedModels={backtestModels}
+              onToggleModel={toggleBacktestModel}
+            />
+          </div>
+        )}
+
+        {stockData.length > 0 && !loading && getForecaster(modelId).tune && (
+          <div className="mt-8">
+            <TuningPanel
+              symbol={activeSymbol}
+              modelLabel={getForecaster(modelId).label}
+              trials={tuningTrials}
+              result={loadTuning(activeSymbol, modelId)}
+              running={tuning}
+              progress={tuningProgress}
+              strategy={tuningStrategy}
+              onStrategyChange={setTuningStrategy}
+              onRun={handleTune}
+              onCancel={() => tuningJob.current?.cancel()}
+              onReset={handleResetTuning}
+              disabled={backtesting}
+            />
+          </div>
+        )}
+
         {/* Footer */}
         <div className="mt-12 text-center">
           <div className="bg-white/50 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
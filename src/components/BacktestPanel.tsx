@@ -0,0 +1,153 @@
+'use client';
+
+import React from 'react';
+import { BacktestResult, BacktestWindow, HorizonMetrics } from '@/lib/backtest';
+import { Forecaster, ModelId } from '@/lib/models/types';
+
+export interface ModelBacktest {
+  model: string;
+  result: BacktestResult;
+}
+
+interface BacktestPanelProps {
+  backtests: ModelBacktest[];
+  running: boolean;
+  progress: string;
+  window: BacktestWindow;
+  onWindowChange: (window: BacktestWindow) => void;
+  onRun: () => void;
+  models: Forecaster[];
+  selectedModels: ModelId[];
+  onToggleModel: (id: ModelId) => void;
+  disabled?: boolean;
+}
+
+const formatMetric = (value: number, suffix = ''): string =>
+  isFinite(value) ? `${value.toFixed(2)}${suffix}` : '—';
+
+// Horizons worth a row: the first step, a few in between and the last one
+const summaryRows = (metrics: HorizonMetrics[]): HorizonMetrics[] =>
+  metrics.filter(metric => [1, 5, 10, 20].includes(metric.horizon) || metric.horizon === metrics.length);
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({
+  backtests,
+  running,
+  progress,
+  window,
+  onWindowChange,
+  onRun,
+  models,
+  selectedModels,
+  onToggleModel,
+  disabled = false
+}) => {
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-2xl border border-white/20 p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-2 h-8 bg-gradient-to-b from-purple-500 to-blue-500 rounded-full"></div>
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-800 to-purple-800 bg-clip-text text-transparent">
+            Walk-Forward Backtest
+          </h2>
+          <span className="text-2xl">🧪</span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={window}
+            onChange={(e) => onWindowChange(e.target.value as BacktestWindow)}
+            disabled={running || disabled}
+            className="px-3 py-2 text-sm font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-lg focus:border-purple-500 focus:outline-none disabled:opacity-50"
+          >
+            <option value="expanding">Expanding window</option>
+            <option value="rolling">Rolling window</option>
+          </select>
+          <button
+            onClick={onRun}
+            disabled={running || disabled || selectedModels.length === 0}
+            className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 shadow disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? 'Running…' : 'Run Backtest'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {models.map(model => (
+          <label
+            key={model.id}
+            className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer ${
+              selectedModels.includes(model.id)
+                ? 'border-purple-400 bg-purple-50 text-purple-800'
+                : 'border-gray-200 bg-white text-gray-600'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={selectedModels.includes(model.id)}
+              onChange={() => onToggleModel(model.id)}
+              disabled={running}
+              className="accent-purple-600"
+            />
+            <span>{model.label}</span>
+            {model.runtime === 'worker' && <span className="text-xs text-gray-400">(slow)</span>}
+          </label>
+        ))}
+      </div>
+
+      {running && (
+        <div className="flex items-center space-x-3 text-sm text-gray-600 mb-4">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+          <span>{progress}</span>
+        </div>
+      )}
+
+      {backtests.length === 0 && !running && (
+        <p className="text-sm text-gray-600">
+          Replays history bar by bar: each model is refit on data up to a forecast origin and scored on the
+          bars that followed. These out-of-sample errors are what to expect going forward.
+        </p>
+      )}
+
+      {backtests.map(({ model, result }) => (
+        <div key={model} className="mb-6 last:mb-0">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-semibold text-gray-800">{model}</h3>
+            <span className="text-xs text-gray-500">
+              {result.folds.length} origins • {result.window} window
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4">Horizon</th>
+                  <th className="py-2 pr-4">MAE</th>
+                  <th className="py-2 pr-4">RMSE</th>
+                  <th className="py-2 pr-4">MAPE</th>
+                  <th className="py-2 pr-4">Direction</th>
+                  <th className="py-2 pr-4">Hit Rate (±2%)</th>
+                  <th className="py-2">Samples</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaryRows(result.metrics).map(metric => (
+                  <tr key={metric.horizon} className="border-b border-gray-100 text-gray-800">
+                    <td className="py-2 pr-4 font-semibold">t+{metric.horizon}</td>
+                    <td className="py-2 pr-4">₹{formatMetric(metric.mae)}</td>
+                    <td className="py-2 pr-4">₹{formatMetric(metric.rmse)}</td>
+                    <td className="py-2 pr-4">{formatMetric(metric.mape, '%')}</td>
+                    <td className="py-2 pr-4">{formatMetric(metric.directionalAccuracy, '%')}</td>
+                    <td className="py-2 pr-4">{formatMetric(metric.hitRate, '%')}</td>
+                    <td className="py-2">{metric.samples}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BacktestPanel;
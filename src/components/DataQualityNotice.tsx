@@ -0,0 +1,81 @@
+'use client';
+
+import React from 'react';
+import type { DataQualityIssueType, DataQualityReport } from '@/lib/data-quality';
+
+interface DataQualityNoticeProps {
+  report: DataQualityReport;
+}
+
+const ISSUE_LABELS: Record<DataQualityIssueType, string> = {
+  'duplicate-date': 'duplicate bars removed',
+  'non-positive-price': 'zero/negative bars removed',
+  'dropped-bar': 'bars without a close',
+  'inconsistent-bar': 'bars with inconsistent high/low',
+  'non-trading-day': 'bars on exchange holidays',
+  'circuit-limit': 'circuit-limit closes',
+  'suspicious-return': 'suspicious moves',
+  'zero-volume': 'zero-volume bars'
+};
+
+// Issues listed in full before the rest are summarised
+const MAX_LISTED = 20;
+
+// Warning panel for a series that failed validation; hidden when the report is clean
+const DataQualityNotice: React.FC<DataQualityNoticeProps> = ({ report }) => {
+  if (report.status === 'ok') {
+    return null;
+  }
+
+  const counts = new Map<DataQualityIssueType, number>();
+  for (const issue of report.issues) {
+    counts.set(issue.type, (counts.get(issue.type) ?? 0) + 1);
+  }
+  const listed = report.issues.filter(issue => issue.severity !== 'info');
+  const broken = report.status === 'broken';
+
+  return (
+    <div className={`mb-4 p-4 rounded-xl border text-sm ${broken ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <div className="flex items-start space-x-2">
+        <span className="mt-0.5">{broken ? '🚨' : '⚠️'}</span>
+        <div className="flex-1">
+          <span className={`font-semibold ${broken ? 'text-red-800' : 'text-amber-800'}`}>
+            {broken ? 'Broken series:' : 'Data quality:'}
+          </span>
+          <span className={broken ? 'text-red-700' : 'text-amber-700'}>
+            {broken
+              ? ' gaps or suspicious bars in this history are likely to mislead the models; treat predictions with caution.'
+              : ' minor issues found in this history.'}
+          </span>
+          <div className="mt-2 flex flex-wrap gap-2 text-xs">
+            {report.missingSessions.length > 0 && (
+              <span className="px-2 py-1 bg-white rounded-full border border-gray-200 text-gray-700">
+                {report.missingSessions.length} of {report.expectedSessions} sessions missing
+                {report.longestGap > 1 ? ` (longest gap ${report.longestGap})` : ''}
+                {report.filledSessions.length > 0 ? `, ${report.filledSessions.length} filled flat` : ''}
+              </span>
+            )}
+            {Array.from(counts.entries()).map(([type, count]) => (
+              <span key={type} className="px-2 py-1 bg-white rounded-full border border-gray-200 text-gray-700">
+                {count} {ISSUE_LABELS[type]}
+              </span>
+            ))}
+          </div>
+          {listed.length > 0 && (
+            <details className="mt-2 text-xs text-gray-700">
+              <summary className="cursor-pointer font-semibold">Show flagged bars</summary>
+              <ul className="mt-1 space-y-0.5 font-mono">
+                {listed.slice(0, MAX_LISTED).map(issue => (
+                  <li key={`${issue.type}:${issue.date}`}>{issue.date} — {issue.message}</li>
+                ))}
+                {listed.length > MAX_LISTED && <li>…and {listed.length - MAX_LISTED} more</li>}
+              </ul>
+            </details>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityNotice;
@@ -0,0 +1,88 @@
+'use client';
+
+import React from 'react';
+import { EnsembleMember } from '@/lib/prediction';
+
+interface EnsembleBreakdownProps {
+  members: EnsembleMember[];
+  currentPrice: number;
+  predictedPrice: number;
+}
+
+const formatPrice = (value: number): string =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatSigned = (value: number, suffix = ''): string =>
+  `${value > 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+const EnsembleBreakdown: React.FC<EnsembleBreakdownProps> = ({ members, currentPrice, predictedPrice }) => {
+  const prices = members.map(member => member.predictedPrice);
+  const spreadPercent = ((Math.max(...prices) - Math.min(...prices)) / currentPrice) * 100;
+  const up = members.filter(member => member.predictedPrice > currentPrice).length;
+  const down = members.filter(member => member.predictedPrice < currentPrice).length;
+  const splitDirection = up > 0 && down > 0;
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <span className="text-xl">🧩</span>
+          <h3 className="text-lg font-bold text-gray-800">Ensemble Breakdown</h3>
+        </div>
+        <span className="text-xs text-gray-500">Weights ∝ 1 / recent walk-forward MAE</span>
+      </div>
+
+      {splitDirection && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-4">
+          Members disagree on direction: {up} expect a rise and {down} a fall. Forecasts are {spreadPercent.toFixed(2)}% apart.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-4">Model</th>
+              <th className="py-2 pr-4">Weight</th>
+              <th className="py-2 pr-4">Recent MAE</th>
+              <th className="py-2 pr-4">Forecast</th>
+              <th className="py-2 pr-4">Change</th>
+              <th className="py-2">Contribution</th>
+            </tr>
+          </thead>
+          <tbody>
+            {members.map(member => (
+              <tr key={member.model} className="border-b border-gray-100 text-gray-800">
+                <td className="py-2 pr-4 font-semibold">{member.label}</td>
+                <td className="py-2 pr-4">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-16 h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-2 bg-purple-500" style={{ width: `${(member.weight * 100).toFixed(1)}%` }}></div>
+                    </div>
+                    <span>{(member.weight * 100).toFixed(1)}%</span>
+                  </div>
+                </td>
+                <td className="py-2 pr-4">{member.backtestMae !== null ? `₹${formatPrice(member.backtestMae)}` : '—'}</td>
+                <td className="py-2 pr-4">₹{formatPrice(member.predictedPrice)}</td>
+                <td className={`py-2 pr-4 ${member.changePercent > 0 ? 'text-green-600' : member.changePercent < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                  {formatSigned(member.changePercent, '%')}
+                </td>
+                <td className="py-2">₹{formatSigned(member.contribution)}</td>
+              </tr>
+            ))}
+            <tr className="font-bold text-gray-900">
+              <td className="py-2 pr-4">Ensemble</td>
+              <td className="py-2 pr-4">100%</td>
+              <td className="py-2 pr-4"></td>
+              <td className="py-2 pr-4">₹{formatPrice(predictedPrice)}</td>
+              <td className="py-2 pr-4">{formatSigned(((predictedPrice - currentPrice) / currentPrice) * 100, '%')}</td>
+              <td className="py-2">₹{formatSigned(predictedPrice - currentPrice)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default EnsembleBreakdown;
@@ -0,0 +1,98 @@
+'use client';
+
+import React from 'react';
+import {
+  INDICATORS,
+  IndicatorKind,
+  IndicatorSpec,
+  getIndicator,
+  indicatorKey,
+  indicatorParam,
+  indicatorLabel,
+  modelFeatureFor,
+  uniqueIndicators,
+  withParam
+} from '@/lib/chart-indicators';
+
+interface IndicatorPickerProps {
+  indicators: IndicatorSpec[];
+  onChange: (indicators: IndicatorSpec[]) => void;
+}
+
+// Chart indicator list: add one from the menu, edit its parameters in place, remove it
+// with ×. Parameters are applied when the input loses focus or on Enter.
+const IndicatorPicker: React.FC<IndicatorPickerProps> = ({ indicators, onChange }) => {
+  const update = (index: number, spec: IndicatorSpec) =>
+    onChange(uniqueIndicators(indicators.map((current, i) => (i === index ? spec : current))));
+
+  const add = (kind: IndicatorKind) => onChange(uniqueIndicators([...indicators, getIndicator(kind).defaults]));
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value=""
+        onChange={(e) => add(e.target.value as IndicatorKind)}
+        className="px-3 py-1 font-semibold text-gray-700 bg-white border border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+      >
+        <option value="" disabled>+ Add indicator</option>
+        {INDICATORS.map(definition => (
+          <option key={definition.kind} value={definition.kind}>
+            {definition.label}
+          </option>
+        ))}
+      </select>
+      {indicators.map((spec, index) => {
+        const definition = getIndicator(spec.kind);
+        return (
+          <div
+            key={indicatorKey(spec)}
+            className="flex items-center space-x-2 px-3 py-1 bg-white border border-gray-200 rounded-lg"
+          >
+            <span className="font-semibold text-gray-800">{definition.label}</span>
+            {definition.params.map(param => (
+              <label key={param.key} className="flex items-center space-x-1 text-xs text-gray-500">
+                <span>{param.label}</span>
+                <input
+                  type="number"
+                  min={param.min}
+                  max={param.max}
+                  step={param.step}
+                  defaultValue={indicatorParam(spec, param.key)}
+                  onBlur={(e) => {
+                    const next = withParam(spec, param.key, Number(e.target.value));
+                    // Show the value actually applied when the input was out of range
+                    e.target.value = String(indicatorParam(next, param.key));
+                    update(index, next);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.currentTarget.blur();
+                    }
+                  }}
+                  className="w-14 px-1 py-0.5 text-sm text-gray-900 border border-gray-200 rounded focus:border-blue-500 focus:outline-none"
+                />
+              </label>
+            ))}
+            {modelFeatureFor(spec) && (
+              <span
+                className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded-full"
+                title={`${indicatorLabel(spec)} is one of the neural model's inputs`}
+              >
+                model input
+              </span>
+            )}
+            <button
+              onClick={() => onChange(indicators.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-600 font-bold"
+              aria-label={`Remove ${indicatorLabel(spec)}`}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IndicatorPicker;
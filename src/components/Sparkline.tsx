@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  // Appended after `values` as a dashed segment
+  forecast?: number[];
+  width?: number;
+  height?: number;
+}
+
+// Minimal inline price chart: recent closes, plus the forecast path in the trend colour
+const Sparkline: React.FC<SparklineProps> = ({ values, forecast = [], width = 120, height = 32 }) => {
+  const all = [...values, ...forecast];
+  if (values.length < 2) {
+    return <svg width={width} height={height} />;
+  }
+
+  const min = Math.min(...all);
+  const range = Math.max(...all) - min || 1;
+  const x = (i: number) => (i / (all.length - 1)) * (width - 2) + 1;
+  const y = (value: number) => height - 1 - ((value - min) / range) * (height - 2);
+  const points = (series: number[], offset: number) =>
+    series.map((value, i) => `${x(i + offset).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+
+  const last = values[values.length - 1];
+  const rising = values[values.length - 1] >= values[0];
+  const forecastUp = forecast.length > 0 && forecast[forecast.length - 1] >= last;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden="true">
+      <polyline
+        points={points(values, 0)}
+        fill="none"
+        stroke={rising ? '#16a34a' : '#dc2626'}
+        strokeWidth="1.5"
+        strokeLinejoin="round"
+      />
+      {forecast.length > 0 && (
+        <polyline
+          points={points([last, ...forecast], values.length - 1)}
+          fill="none"
+          stroke={forecastUp ? '#2563eb' : '#f97316'}
+          strokeWidth="1.5"
+          strokeDasharray="3 2"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default Sparkline;
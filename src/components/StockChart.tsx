@@ -1,67 +1,242 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Chart as ChartJS,
-  CategoryScale,
+  TimeSeriesScale,
   LinearScale,
   PointElement,
   LineElement,
+  LineController,
+  BarElement,
+  BarController,
   Title,
   Tooltip,
   Legend,
+  Filler,
+  ChartData,
   ChartOptions
 } from 'chart.js';
-import { Line } from 'react-chartjs-2';
+import { CandlestickController, CandlestickElement, OhlcController, OhlcElement } from 'chartjs-chart-financial';
+import 'chartjs-adapter-date-fns';
+import { Chart } from 'react-chartjs-2';
+import { IndicatorSpec, computeIndicator, getIndicator } from '@/lib/chart-indicators';
+import type { CorporateAdjustment } from '@/lib/corporate-actions';
+import { Candle } from '@/lib/market-data';
+import { PredictionInterval } from '@/lib/intervals';
+import { formatIstDate } from '@/lib/trading-calendar';
 
 ChartJS.register(
-  CategoryScale,
+  TimeSeriesScale,
   LinearScale,
   PointElement,
   LineElement,
+  LineController,
+  BarElement,
+  BarController,
+  CandlestickController,
+  CandlestickElement,
+  OhlcController,
+  OhlcElement,
   Title,
   Tooltip,
-  Legend
+  Legend,
+  Filler
 );
 
+export type ChartView = 'line' | 'candlestick' | 'ohlc';
+
+const CHART_VIEWS: { id: ChartView; label: string }[] = [
+  { id: 'line', label: 'Line' },
+  { id: 'candlestick', label: 'Candles' },
+  { id: 'ohlc', label: 'OHLC' }
+];
+
+// Up/down bar colours shared by the candles and the volume pane
+const UP_COLOR = 'rgba(34, 197, 94, 0.5)';
+const DOWN_COLOR = 'rgba(239, 68, 68, 0.5)';
+
+// Indicator colours as RGB triples, assigned in the order indicators were added
+const INDICATOR_COLORS = ['147, 51, 234', '234, 88, 12', '13, 148, 136', '219, 39, 119', '100, 116, 139'];
+
+// Chart height by the number of oscillator sub-panels below the price and volume panes
+const CHART_HEIGHTS = ['h-[32rem]', 'h-[40rem]', 'h-[48rem]'];
+
+// Lakh/crore shorthand for volume ticks, e.g. "12L" or "1.2Cr"
+const compactVolume = new Intl.NumberFormat('en-IN', { notation: 'compact', maximumFractionDigits: 1 });
+
+// Band shading per interval level; wider bands are lighter
+const BAND_COLORS: Record<number, string> = {
+  0.8: 'rgba(239, 68, 68, 0.25)',
+  0.95: 'rgba(239, 68, 68, 0.12)'
+};
+
+// Short label for an action flag, e.g. "1:1 bonus", "5:1 split" or "₹18.00 dividend"
+const describeAction = (action: CorporateAdjustment): string => {
+  if (action.type === 'dividend') {
+    return `₹${action.amount.toFixed(2)} dividend`;
+  }
+  return action.type === 'bonus'
+    ? `${parseFloat((action.ratio - 1).toFixed(4))}:1 bonus`
+    : `${parseFloat(action.ratio.toFixed(4))}:1 split`;
+};
+
 interface StockChartProps {
-  dates: string[];
-  actualPrices: number[];
-  predictedPrices: number[];
+  candles: Candle[];
+  predictedPrices: (number | null)[];
+  predictionLabel?: string;
   futureDates?: string[];
   futurePredictions?: number[];
+  futureIntervals?: PredictionInterval[];
+  // Corporate actions the series was back-adjusted for, flagged at their ex-dates
+  corporateActions?: CorporateAdjustment[];
+  // Overlays on the price pane and oscillators in sub-panels, in the order added
+  indicators?: IndicatorSpec[];
   symbol: string;
 }
 
 const StockChart: React.FC<StockChartProps> = ({
-  dates,
-  actualPrices,
+  candles,
   predictedPrices,
+  predictionLabel = 'Model Prediction (Historical)',
   futureDates = [],
   futurePredictions = [],
+  futureIntervals = [],
+  corporateActions = [],
+  indicators = [],
   symbol
 }) => {
-  // Combine all dates for x-axis
-  const allDates = [...dates, ...futureDates];
+  const [view, setView] = useState<ChartView>('line');
+  const dates = candles.map(candle => candle.date);
+  const actualPrices = candles.map(candle => candle.close);
   
-  // Prepare data for the chart
-  const data = {
-    labels: allDates,
-    datasets: [
-      {
+  // Applied actions by the index of their ex-date bar
+  const actionsByIndex = new Map<number, CorporateAdjustment[]>();
+  for (const action of corporateActions.filter(item => item.status === 'applied')) {
+    const index = dates.findIndex(date => date >= action.date);
+    if (index > 0) {
+      actionsByIndex.set(index, [...(actionsByIndex.get(index) ?? []), action]);
+    }
+  }
+  // Prices before the last split or bonus were rescaled, so that stretch is drawn lighter
+  const adjustedUntil = Math.max(0, ...Array.from(actionsByIndex.entries())
+    .filter(([, actions]) => actions.some(action => action.type !== 'dividend'))
+    .map(([index]) => index));
+  
+  // Combine all dates for x-axis. The axis is a time series scale: bars are spaced
+  // evenly by position, so weekends, holidays and overnight breaks leave no gaps.
+  const allDates = [...dates, ...futureDates];
+  const times = allDates.map(date => Date.parse(date));
+  const dateAt = new Map(times.map((time, i) => [time, allDates[i]]));
+  const padFuture = Array(futureDates.length).fill(null);
+
+  // Closes drawn as a line, or the full bars as candles or OHLC ticks
+  const priceDataset = view === 'line'
+    ? {
+        type: 'line' as const,
         label: 'Actual Price',
-        data: [...actualPrices, ...Array(futureDates.length).fill(null)],
+        data: [...actualPrices, ...padFuture],
         borderColor: 'rgb(59, 130, 246)', // Blue
         backgroundColor: 'rgba(59, 130, 246, 0.1)',
         borderWidth: 2,
         pointRadius: 3,
         pointHoverRadius: 5,
         tension: 0.1,
+        spanGaps: false,
+        segment: {
+          borderColor: (ctx: { p1DataIndex: number }) =>
+            ctx.p1DataIndex < adjustedUntil ? 'rgba(59, 130, 246, 0.45)' : undefined
+        }
+      }
+    : {
+        type: view,
+        label: 'Actual Price',
+        data: candles.map((candle, i) => ({ x: times[i], o: candle.open, h: candle.high, l: candle.low, c: candle.close })),
+        // Financial datasets read o/h/l/c straight from the points
+        parsing: false as const,
+        borderColor: 'rgb(59, 130, 246)',
+        backgroundColor: 'rgb(59, 130, 246)'
+      };
+  
+  // Each interval is a lower-bound line plus an upper-bound line filled down to it.
+  // Widest bands go first so the narrower ones are drawn on top.
+  const bandDatasets = [...futureIntervals]
+    .sort((a, b) => b.level - a.level)
+    .flatMap(interval => {
+      const percent = Math.round(interval.level * 100);
+      const padding = Array(dates.length).fill(null);
+      const color = BAND_COLORS[interval.level] ?? 'rgba(239, 68, 68, 0.15)';
+      const bandStyle = {
+        borderColor: 'transparent',
+        backgroundColor: color,
+        borderWidth: 0,
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        tension: 0.1,
         spanGaps: false
-      },
+      };
+      return [
+        {
+          ...bandStyle,
+          label: `${percent}% Lower Bound`,
+          data: [...padding, ...interval.lower],
+          fill: false
+        },
+        {
+          ...bandStyle,
+          label: `${percent}% Prediction Interval`,
+          data: [...padding, ...interval.upper],
+          fill: '-1'
+        }
+      ];
+    });
+  
+  // SMA/EMA/Bollinger lines share the price axis; RSI and MACD each get a sub-panel axis
+  const panes = new Set(indicators.map(spec => getIndicator(spec.kind).pane));
+  const indicatorDatasets = indicators.flatMap((spec, n) => {
+    const color = INDICATOR_COLORS[n % INDICATOR_COLORS.length];
+    const pane = getIndicator(spec.kind).pane;
+    const yAxisID = pane === 'price' ? 'y' : pane;
+    return computeIndicator(candles, spec).map(series => {
+      const data = [...series.values, ...padFuture];
+      if (series.role === 'histogram') {
+        return {
+          type: 'bar' as const,
+          label: series.label,
+          data,
+          yAxisID,
+          backgroundColor: series.values.map(value => ((value ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR))
+        };
+      }
+      return {
+        type: 'line' as const,
+        label: series.label,
+        data,
+        yAxisID,
+        borderColor: `rgb(${color})`,
+        // The upper Bollinger band is filled down to the lower band drawn just before it
+        backgroundColor: series.role === 'upper' ? `rgba(${color}, 0.06)` : `rgb(${color})`,
+        fill: series.role === 'upper' ? '-1' : false,
+        borderWidth: series.role === 'line' ? 1.5 : 1,
+        borderDash: series.role === 'signal' ? [4, 3] : undefined,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        tension: 0,
+        spanGaps: false
+      };
+    });
+  });
+  const indicatorLabels = new Set(indicatorDatasets.map(dataset => dataset.label));
+  const subPanels = (['rsi', 'macd'] as const).filter(pane => panes.has(pane)).length;
+
+  // Prepare data for the chart
+  const data = {
+    labels: times,
+    datasets: [
+      priceDataset,
       {
-        label: 'Model Prediction (Historical)',
-        data: [...predictedPrices, ...Array(futureDates.length).fill(null)],
+        label: predictionLabel,
+        data: [...predictedPrices, ...padFuture],
         borderColor: 'rgb(34, 197, 94)', // Green
         backgroundColor: 'rgba(34, 197, 94, 0.1)',
         borderWidth: 2,
@@ -82,9 +257,28 @@ const StockChart: React.FC<StockChartProps> = ({
         tension: 0.1,
         borderDash: [10, 5],
         spanGaps: false
-      }
+      },
+      ...bandDatasets,
+      ...(actionsByIndex.size > 0 ? [{
+        label: 'Corporate Action',
+        data: allDates.map((_, i) => (actionsByIndex.has(i) ? actualPrices[i] : null)),
+        borderColor: 'rgb(217, 119, 6)', // Amber
+        backgroundColor: 'rgb(245, 158, 11)',
+        pointStyle: 'triangle' as const,
+        pointRadius: 7,
+        pointHoverRadius: 9,
+        showLine: false
+      }] : []),
+      {
+        type: 'bar' as const,
+        label: 'Volume',
+        data: [...candles.map(candle => candle.volume), ...padFuture],
+        backgroundColor: candles.map(candle => (candle.close >= candle.open ? UP_COLOR : DOWN_COLOR)),
+        yAxisID: 'volume'
+      },
+      ...indicatorDatasets
     ]
-  };
+  } as ChartData<'line'>;
 
   const options: ChartOptions<'line'> = {
     responsive: true,
@@ -94,7 +288,9 @@ const StockChart: React.FC<StockChartProps> = ({
         position: 'top' as const,
         labels: {
           usePointStyle: true,
-          padding: 20
+          padding: 20,
+          // The filled upper bound already represents each band
+          filter: (item) => !item.text.endsWith('Lower Bound') && !item.text.endsWith(' Lower')
         }
       },
       title: {
@@ -109,11 +305,54 @@ const StockChart: React.FC<StockChartProps> = ({
       tooltip: {
         mode: 'index',
         intersect: false,
+        // Volume is listed with the bar below rather than as a series
+        // Indicators are left out during their warm-up
+        filter: (item) => {
+          const label = item.dataset.label || '';
+          return !label.endsWith('Lower Bound') && label !== 'Volume' && !(indicatorLabels.has(label) && item.parsed.y === null);
+        },
         callbacks: {
+          title: function(items) {
+            return items.length > 0 ? formatIstDate(allDates[items[0].dataIndex]) : '';
+          },
           label: function(context) {
             const label = context.dataset.label || '';
-            const value = context.parsed.y;
+            // Candle and OHLC points have no y; report their close
+            const value = context.datasetIndex === 0 && view !== 'line'
+              ? candles[context.dataIndex]?.close ?? null
+              : context.parsed.y;
+            if (label.endsWith('Prediction Interval')) {
+              // Pair the upper bound with the lower-bound dataset drawn just before it
+              const lower = context.chart.data.datasets[context.datasetIndex - 1]?.data[context.dataIndex] as number | null;
+              return `${label}: ₹${lower?.toFixed(2) ?? 'N/A'} – ₹${value?.toFixed(2) ?? 'N/A'}`;
+            }
+            if (context.datasetIndex === 1 && value !== null && actualPrices[context.dataIndex] !== undefined) {
+              // Residual of the model output against the actual close
+              const residual = actualPrices[context.dataIndex] - value;
+              const residualPercent = (residual / value) * 100;
+              return `${label}: ₹${value.toFixed(2)} (residual ${residual >= 0 ? '+' : '-'}₹${Math.abs(residual).toFixed(2)}, ${residualPercent >= 0 ? '+' : ''}${residualPercent.toFixed(2)}%)`;
+            }
+            if (indicatorLabels.has(label) && (context.dataset as { yAxisID?: string }).yAxisID !== 'y') {
+              // Oscillators are unitless
+              return `${label}: ${value?.toFixed(2) ?? 'N/A'}`;
+            }
             return `${label}: ₹${value?.toFixed(2) || 'N/A'}`;
+          },
+          afterBody: function(items) {
+            // Show the full bar for historical points
+            const candle = items.length > 0 ? candles[items[0].dataIndex] : undefined;
+            if (!candle) {
+              return [];
+            }
+            const index = items[0].dataIndex;
+            return [
+              `O: ₹${candle.open.toFixed(2)}  H: ₹${candle.high.toFixed(2)}`,
+              `L: ₹${candle.low.toFixed(2)}  C: ₹${candle.close.toFixed(2)}`,
+              `Adj Close: ₹${candle.adjClose.toFixed(2)}`,
+              `Volume: ${candle.volume.toLocaleString('en-IN')}`,
+              ...(actionsByIndex.get(index) ?? []).map(action => `Ex-date: ${describeAction(action)} (${action.source})`),
+              ...(index < adjustedUntil ? ['Back-adjusted for a later split/bonus'] : [])
+            ];
           }
         }
       }
@@ -125,6 +364,8 @@ const StockChart: React.FC<StockChartProps> = ({
     },
     scales: {
       x: {
+        type: 'timeseries',
+        offset: true,
         display: true,
         title: {
           display: true,
@@ -135,21 +376,27 @@ const StockChart: React.FC<StockChartProps> = ({
           }
         },
         ticks: {
+          source: 'labels',
           maxTicksLimit: 10,
-          callback: function(value, index) {
-            const date = allDates[index];
+          maxRotation: 0,
+          callback: function(value) {
+            const date = dateAt.get(value as number);
             if (date) {
-              return new Date(date).toLocaleDateString('en-US', {
-                month: 'short',
-                day: 'numeric'
-              });
+              // Bar dates are IST trading dates; format in IST so other time zones don't shift them
+              return formatIstDate(date, { weekday: undefined });
             }
             return '';
           }
         }
       },
+      // The price, volume, RSI and MACD panes share the x-axis: their y-axes are stacked
+      // in one plot area, split by stackWeight, with higher layout weights placed higher up
       y: {
         display: true,
+        position: 'left',
+        stack: 'panes',
+        stackWeight: 4,
+        weight: 4,
         title: {
           display: true,
           text: 'Price (₹)',
@@ -163,7 +410,69 @@ const StockChart: React.FC<StockChartProps> = ({
             return '₹' + (value as number).toFixed(2);
           }
         }
-      }
+      },
+      volume: {
+        type: 'linear',
+        display: true,
+        position: 'left',
+        stack: 'panes',
+        stackWeight: 1,
+        weight: 3,
+        offset: true,
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: 'Volume'
+        },
+        ticks: {
+          maxTicksLimit: 3,
+          callback: function(value) {
+            return compactVolume.format(value as number);
+          }
+        }
+      },
+      ...(panes.has('rsi') ? {
+        rsi: {
+          type: 'linear' as const,
+          display: true,
+          position: 'left' as const,
+          stack: 'panes',
+          stackWeight: 1.5,
+          weight: 2,
+          offset: true,
+          min: 0,
+          max: 100,
+          title: {
+            display: true,
+            text: 'RSI'
+          },
+          ticks: {
+            autoSkip: false
+          },
+          // Grid lines at the oversold, neutral and overbought levels
+          afterBuildTicks: (axis: { ticks: { value: number }[] }) => {
+            axis.ticks = [30, 50, 70].map(value => ({ value }));
+          }
+        }
+      } : {}),
+      ...(panes.has('macd') ? {
+        macd: {
+          type: 'linear' as const,
+          display: true,
+          position: 'left' as const,
+          stack: 'panes',
+          stackWeight: 1.5,
+          weight: 1,
+          offset: true,
+          title: {
+            display: true,
+            text: 'MACD'
+          },
+          ticks: {
+            maxTicksLimit: 3
+          }
+        }
+      } : {})
     },
     elements: {
       point: {
@@ -174,8 +483,25 @@ const StockChart: React.FC<StockChartProps> = ({
   };
 
   return (
-    <div className="w-full h-96 bg-white rounded-lg shadow-lg p-4">
-      <Line data={data} options={options} />
+    <div className="w-full bg-white rounded-lg shadow-lg p-4">
+      <div className="flex justify-end space-x-2 mb-2">
+        {CHART_VIEWS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setView(option.id)}
+            className={`px-3 py-1 rounded-lg text-sm font-semibold transition-all ${
+              view === option.id
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow'
+                : 'bg-white border border-gray-200 text-gray-700 hover:border-blue-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className={CHART_HEIGHTS[subPanels]}>
+        <Chart type="line" data={data} options={options} />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { InstrumentMatch } from '@/lib/instruments';
+import { Exchange } from '@/lib/market-data';
+
+interface SymbolSearchInputProps {
+  value: string;
+  exchange: Exchange;
+  onChange: (value: string) => void;
+  // Enter without a highlighted suggestion
+  onSubmit: () => void;
+  disabled?: boolean;
+}
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 200;
+
+// Symbol input with an autocomplete dropdown backed by /api/symbols
+const SymbolSearchInput: React.FC<SymbolSearchInputProps> = ({ value, exchange, onChange, onSubmit, disabled = false }) => {
+  const [results, setResults] = useState<InstrumentMatch[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  useEffect(() => {
+    const query = value.trim();
+    if (!query) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query, exchange, limit: '8' });
+        const response = await fetch(`/api/symbols?${params.toString()}`, { signal: controller.signal });
+        const data = await response.json();
+        setResults(data.success ? data.results : []);
+        setHighlighted(-1);
+      } catch {
+        // Aborted by a newer keystroke, or search unavailable: keep typing raw tickers
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, exchange]);
+
+  const select = (match: InstrumentMatch) => {
+    onChange(match.symbol);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showing = open && results.length > 0;
+    if (e.key === 'ArrowDown' && showing) {
+      e.preventDefault();
+      setHighlighted(index => (index + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && showing) {
+      e.preventDefault();
+      setHighlighted(index => (index <= 0 ? results.length - 1 : index - 1));
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    } else if (e.key === 'Enter') {
+      if (showing && highlighted >= 0) {
+        select(results[highlighted]);
+      } else {
+        setOpen(false);
+        onSubmit();
+      }
+    }
+  };
+
+  // An exact ticker match needs no dropdown
+  const exactMatch = results.length === 1 && results[0].symbol === value.trim().toUpperCase();
+
+  return (
+    <div className="relative">
+      <div className="absolute left-4 top-1/2 transform -translate-y-1/2 text-2xl">
+        📈
+      </div>
+      <input
+        id="stockSymbol"
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value.toUpperCase());
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder="ENTER STOCK SYMBOL OR COMPANY"
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={open && results.length > 0}
+        aria-controls="symbol-suggestions"
+        className="w-full pl-16 pr-20 py-5 text-2xl font-bold text-gray-900 bg-white border-4 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-200 focus:outline-none transition-all placeholder-gray-400 shadow-inner"
+        style={{
+          textTransform: 'uppercase',
+          letterSpacing: '0.1em'
+        }}
+        disabled={disabled}
+      />
+      <div className="absolute right-4 top-1/2 transform -translate-y-1/2">
+        <div className="bg-blue-100 text-blue-800 px-3 py-1 rounded-lg text-sm font-semibold">
+          .{exchange}
+        </div>
+      </div>
+
+      {open && results.length > 0 && !exactMatch && !disabled && (
+        <ul
+          id="symbol-suggestions"
+          role="listbox"
+          className="absolute z-20 left-0 right-0 mt-2 bg-white border border-gray-200 rounded-xl shadow-2xl overflow-hidden"
+        >
+          {results.map((match, i) => (
+            <li
+              key={match.symbol}
+              role="option"
+              aria-selected={i === highlighted}
+              // Keep focus in the input so the list stays open until the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(match)}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`flex items-center justify-between px-4 py-3 cursor-pointer ${i === highlighted ? 'bg-blue-50' : 'bg-white'}`}
+            >
+              <div>
+                <span className="font-bold text-gray-900">{match.symbol}</span>
+                <span className="ml-3 text-sm text-gray-600">{match.name}</span>
+              </div>
+              <div className="text-xs text-gray-400 text-right">
+                <div>{match.sector}</div>
+                <div>{match.isin}{match.bseCode ? ` • BSE ${match.bseCode}` : ''}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SymbolSearchInput;
@@ -0,0 +1,158 @@
+'use client';
+
+import React from 'react';
+import { NeuralHyperparameters } from '@/lib/ml-utils';
+import { NEURAL_SEARCH_SPACE, SearchStrategy, TuningResult, TuningTrial, gridSize } from '@/lib/tuning';
+
+interface TuningPanelProps {
+  symbol: string;
+  modelLabel: string;
+  // Trials reported so far by a running search
+  trials: TuningTrial[];
+  // The saved result for this symbol and model, if any
+  result: TuningResult | null;
+  running: boolean;
+  progress: string;
+  strategy: SearchStrategy;
+  onStrategyChange: (strategy: SearchStrategy) => void;
+  onRun: () => void;
+  onCancel: () => void;
+  onReset: () => void;
+  disabled?: boolean;
+}
+
+const describeLayers = ({ layers, dropout, l2 }: NeuralHyperparameters): string =>
+  `${layers.join('→')} • dropout ${dropout} • L2 ${l2}`;
+
+const describeTraining = ({ learningRate, initialEpochs, finetuneEpochs }: NeuralHyperparameters): string =>
+  `lr ${learningRate} • ${initialEpochs}${finetuneEpochs > 0 ? ` + ${finetuneEpochs}` : ''} epochs`;
+
+const TuningPanel: React.FC<TuningPanelProps> = ({
+  symbol,
+  modelLabel,
+  trials,
+  result,
+  running,
+  progress,
+  strategy,
+  onStrategyChange,
+  onRun,
+  onCancel,
+  onReset,
+  disabled = false
+}) => {
+  const shown = [...(running ? trials : result?.trials ?? [])].sort((a, b) => a.score - b.score);
+  const defaultScore = shown.find(trial => trial.isDefault)?.score;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-2xl border border-white/20 p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-2 h-8 bg-gradient-to-b from-amber-500 to-orange-500 rounded-full"></div>
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-800 to-orange-800 bg-clip-text text-transparent">
+            Hyperparameter Tuning
+          </h2>
+          <span className="text-2xl">🎛️</span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={strategy}
+            onChange={(e) => onStrategyChange(e.target.value as SearchStrategy)}
+            disabled={running || disabled}
+            className="px-3 py-2 text-sm font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-lg focus:border-orange-500 focus:outline-none disabled:opacity-50"
+          >
+            <option value="random">Random search (10 configs)</option>
+            <option value="grid">Grid search ({gridSize(NEURAL_SEARCH_SPACE)} configs)</option>
+          </select>
+          {running ? (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg text-sm font-semibold text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onRun}
+              disabled={disabled}
+              className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 shadow disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Tune
+            </button>
+          )}
+        </div>
+      </div>
+
+      {running && (
+        <div className="flex items-center space-x-3 text-sm text-gray-600 mb-4">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-600"></div>
+          <span>{progress}</span>
+        </div>
+      )}
+
+      {shown.length === 0 && !running && (
+        <p className="text-sm text-gray-600">
+          Searches layer sizes, dropout, L2, learning rate and epochs for the {modelLabel} on {symbol}, scoring each
+          configuration by time-series cross-validation. This retrains the network many times and can take several
+          minutes; the best settings are saved for this symbol and used by later predictions.
+        </p>
+      )}
+
+      {result && !running && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+          <span className="text-orange-800">
+            Tuned settings saved for <strong>{symbol}</strong> on {new Date(result.tunedAt).toLocaleDateString()} ({result.strategy} search,
+            {' '}{result.folds} folds over {result.samples} bars); used by the next prediction.
+          </span>
+          <button
+            onClick={onReset}
+            disabled={disabled}
+            className="px-3 py-1 rounded-lg text-xs font-semibold text-orange-800 bg-white border border-orange-300 hover:bg-orange-100 disabled:opacity-50"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+
+      {shown.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4">Rank</th>
+                <th className="py-2 pr-4">Architecture</th>
+                <th className="py-2 pr-4">Training</th>
+                <th className="py-2 pr-4">CV MAPE</th>
+                <th className="py-2 pr-4">vs Default</th>
+                <th className="py-2">Folds</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((trial, i) => (
+                <tr
+                  key={JSON.stringify(trial.hyperparameters)}
+                  className={`border-b border-gray-100 text-gray-800 ${i === 0 && !running ? 'bg-orange-50 font-semibold' : ''}`}
+                >
+                  <td className="py-2 pr-4">{i + 1}{trial.isDefault && <span className="ml-1 text-xs text-gray-500">(default)</span>}</td>
+                  <td className="py-2 pr-4">{describeLayers(trial.hyperparameters)}</td>
+                  <td className="py-2 pr-4">{describeTraining(trial.hyperparameters)}</td>
+                  <td className="py-2 pr-4">{isFinite(trial.score) ? `${trial.score.toFixed(2)}%` : '—'}</td>
+                  <td className="py-2 pr-4">
+                    {defaultScore !== undefined && isFinite(defaultScore) && isFinite(trial.score)
+                      ? `${trial.score <= defaultScore ? '' : '+'}${(trial.score - defaultScore).toFixed(2)} pts`
+                      : '—'}
+                  </td>
+                  <td className="py-2 font-mono text-xs text-gray-500">
+                    {trial.foldErrors.map(error => (isFinite(error) ? error.toFixed(2) : '—')).join(' / ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TuningPanel;
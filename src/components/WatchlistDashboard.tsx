@@ -0,0 +1,236 @@
+'use client';
+
+import React, { useState } from 'react';
+import Sparkline from '@/components/Sparkline';
+import { Exchange } from '@/lib/market-data';
+import { Forecaster, ModelId } from '@/lib/models/types';
+import { PredictionResult } from '@/lib/prediction';
+import { POPULAR_SYMBOLS, WatchlistItem, parseWatchlistInput, watchlistKey } from '@/lib/watchlist';
+
+export interface WatchlistRow {
+  status: 'loading' | 'done' | 'error';
+  // Recent closes for the sparkline
+  closes?: number[];
+  prediction?: PredictionResult;
+  error?: string;
+}
+
+type SortKey = 'list' | 'change' | 'confidence';
+
+interface WatchlistDashboardProps {
+  items: WatchlistItem[];
+  rows: Record<string, WatchlistRow>;
+  running: boolean;
+  progress: string;
+  defaultExchange: Exchange;
+  models: Forecaster[];
+  model: ModelId;
+  onModelChange: (model: ModelId) => void;
+  onAdd: (items: WatchlistItem[]) => void;
+  onRemove: (item: WatchlistItem) => void;
+  onRun: () => void;
+  onSelect: (item: WatchlistItem) => void;
+  disabled?: boolean;
+}
+
+const formatPrice = (value: number): string =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// null for rows without a prediction yet
+const sortValue = (row: WatchlistRow | undefined, key: SortKey): number | null => {
+  if (!row?.prediction) {
+    return null;
+  }
+  return key === 'change' ? row.prediction.changePercent : row.prediction.confidence;
+};
+
+// Highest value first; unscored rows go last, keeping their list order
+const compareRows = (a: WatchlistRow | undefined, b: WatchlistRow | undefined, key: SortKey): number => {
+  const left = sortValue(a, key);
+  const right = sortValue(b, key);
+  if (left === null || right === null) {
+    return Number(left === null) - Number(right === null);
+  }
+  return right - left;
+};
+
+const WatchlistDashboard: React.FC<WatchlistDashboardProps> = ({
+  items,
+  rows,
+  running,
+  progress,
+  defaultExchange,
+  models,
+  model,
+  onModelChange,
+  onAdd,
+  onRemove,
+  onRun,
+  onSelect,
+  disabled = false
+}) => {
+  const [input, setInput] = useState('');
+  const [invalid, setInvalid] = useState<string[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>('list');
+
+  const handleAdd = () => {
+    const parsed = parseWatchlistInput(input, defaultExchange);
+    onAdd(parsed.items);
+    setInvalid(parsed.invalid);
+    setInput(parsed.invalid.join(' '));
+  };
+
+  const sorted = sortKey === 'list'
+    ? items
+    : [...items].sort((a, b) => compareRows(rows[watchlistKey(a)], rows[watchlistKey(b)], sortKey));
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <button
+      onClick={() => setSortKey(sortKey === key ? 'list' : key)}
+      className={`font-semibold ${sortKey === key ? 'text-teal-700' : 'text-gray-600 hover:text-gray-800'}`}
+    >
+      {label}{sortKey === key ? ' ↓' : ''}
+    </button>
+  );
+
+  return (
+    <div className="bg-white/80 backdrop-blur-lg rounded-2xl shadow-2xl border border-white/20 p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-2 h-8 bg-gradient-to-b from-teal-500 to-blue-500 rounded-full"></div>
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-800 to-teal-800 bg-clip-text text-transparent">
+            Watchlist
+          </h2>
+          <span className="text-2xl">📋</span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={model}
+            onChange={(e) => onModelChange(e.target.value as ModelId)}
+            disabled={running || disabled}
+            className="px-3 py-2 text-sm font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-lg focus:border-teal-500 focus:outline-none disabled:opacity-50"
+          >
+            {models.map(forecaster => (
+              <option key={forecaster.id} value={forecaster.id}>
+                {forecaster.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onRun}
+            disabled={running || disabled || items.length === 0}
+            className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-teal-600 to-blue-600 hover:from-teal-700 hover:to-blue-700 shadow disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? 'Predicting…' : `Predict All (${items.length})`}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value.toUpperCase())}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={`Add symbols, e.g. TCS, INFY, WIPRO.BSE (default ${defaultExchange})`}
+          className="flex-1 px-4 py-2 text-sm font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-lg focus:border-teal-500 focus:outline-none"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!input.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-semibold text-teal-800 bg-teal-50 border border-teal-300 hover:bg-teal-100 disabled:opacity-50"
+        >
+          Add
+        </button>
+        <button
+          onClick={() => onAdd(POPULAR_SYMBOLS[defaultExchange].map(symbol => ({ symbol, exchange: defaultExchange })))}
+          className="px-4 py-2 rounded-lg text-sm font-semibold text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+        >
+          Add popular {defaultExchange}
+        </button>
+      </div>
+      {invalid.length > 0 && (
+        <p className="text-xs text-red-600 mb-2">Not added: {invalid.join(', ')}</p>
+      )}
+
+      {running && (
+        <div className="flex items-center space-x-3 text-sm text-gray-600 my-4">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-teal-600"></div>
+          <span>{progress}</span>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-600 mt-4">
+          Add the symbols you follow; they are kept in this browser. <strong>Predict All</strong> fetches and
+          forecasts every symbol with the chosen model, a few at a time.
+        </p>
+      ) : (
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4">Symbol</th>
+                <th className="py-2 pr-4">Trend</th>
+                <th className="py-2 pr-4">Current</th>
+                <th className="py-2 pr-4">Predicted</th>
+                <th className="py-2 pr-4">{sortHeader('change', 'Change')}</th>
+                <th className="py-2 pr-4">{sortHeader('confidence', 'Confidence')}</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(item => {
+                const key = watchlistKey(item);
+                const row = rows[key];
+                const prediction = row?.prediction;
+                return (
+                  <tr key={key} className="border-b border-gray-100 text-gray-800">
+                    <td className="py-2 pr-4">
+                      <button onClick={() => onSelect(item)} className="font-semibold text-blue-700 hover:underline">
+                        {key}
+                      </button>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {row?.closes && <Sparkline values={row.closes} forecast={prediction?.forecast} />}
+                    </td>
+                    {row?.status === 'error' ? (
+                      <td colSpan={4} className="py-2 pr-4 text-xs text-red-600">{row.error}</td>
+                    ) : row?.status === 'loading' ? (
+                      <td colSpan={4} className="py-2 pr-4 text-xs text-gray-500">Loading…</td>
+                    ) : prediction ? (
+                      <>
+                        <td className="py-2 pr-4">₹{formatPrice(prediction.currentPrice)}</td>
+                        <td className="py-2 pr-4">₹{formatPrice(prediction.predictedPrice)}</td>
+                        <td className={`py-2 pr-4 font-semibold ${
+                          prediction.trend === 'up' ? 'text-green-600' : prediction.trend === 'down' ? 'text-red-600' : 'text-yellow-600'
+                        }`}>
+                          {prediction.changePercent > 0 ? '+' : ''}{prediction.changePercent.toFixed(2)}%
+                        </td>
+                        <td className="py-2 pr-4">{prediction.confidence.toFixed(0)}%</td>
+                      </>
+                    ) : (
+                      <td colSpan={4} className="py-2 pr-4 text-xs text-gray-400">Not predicted yet</td>
+                    )}
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => onRemove(item)}
+                        disabled={running}
+                        aria-label={`Remove ${key}`}
+                        className="px-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistDashboard;
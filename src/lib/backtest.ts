@@ -0,0 +1,119 @@
+import { Candle } from './market-data';
+
+// Produces a `horizon`-step price forecast from the candles seen so far
+export type BacktestForecaster = (history: Candle[], horizon: number) => Promise<number[]>;
+
+export type BacktestWindow = 'expanding' | 'rolling';
+
+export interface BacktestOptions {
+  horizon: number;
+  window?: BacktestWindow;
+  // Candles in the first training window (and the rolling window size)
+  minTrainSize?: number;
+  // Upper bound on forecast origins; origins are spread evenly over the test span
+  maxFolds?: number;
+  // A forecast "hits" when its absolute percentage error is within this tolerance
+  hitTolerance?: number;
+  onFold?: (completed: number, total: number) => void;
+}
+
+export interface HorizonMetrics {
+  horizon: number;
+  samples: number;
+  mae: number;
+  rmse: number;
+  mape: number;
+  directionalAccuracy: number;
+  hitRate: number;
+}
+
+export interface BacktestFold {
+  origin: number;
+  trainSize: number;
+  lastSeen: number;
+  forecast: number[];
+  actual: number[];
+}
+
+export interface BacktestResult {
+  window: BacktestWindow;
+  folds: BacktestFold[];
+  metrics: HorizonMetrics[];
+}
+
+// Evenly spaced forecast origins between the first test index and the last usable bar
+const foldOrigins = (length: number, minTrainSize: number, maxFolds: number): number[] => {
+  const first = minTrainSize;
+  const last = length - 1;
+  if (last < first) {
+    return [];
+  }
+  const count = Math.min(maxFolds, last - first + 1);
+  if (count === 1) {
+    return [last];
+  }
+  const spacing = (last - first) / (count - 1);
+  return Array.from(new Set(Array.from({ length: count }, (_, i) => Math.round(first + i * spacing))));
+};
+
+// Out-of-sample error metrics for each step of the horizon
+export const summarizeFolds = (folds: BacktestFold[], horizon: number, hitTolerance = 0.02): HorizonMetrics[] =>
+  Array.from({ length: horizon }, (_, step) => {
+    const scored = folds.filter(fold => fold.actual.length > step && isFinite(fold.forecast[step]));
+    const samples = scored.length;
+    if (samples === 0) {
+      return { horizon: step + 1, samples: 0, mae: NaN, rmse: NaN, mape: NaN, directionalAccuracy: NaN, hitRate: NaN };
+    }
+
+    const errors = scored.map(fold => fold.actual[step] - fold.forecast[step]);
+    const percentErrors = scored.map(fold => Math.abs((fold.actual[step] - fold.forecast[step]) / fold.actual[step]));
+    // Direction is judged against the last close the forecaster saw
+    const correctCalls = scored.filter(fold =>
+      Math.sign(fold.forecast[step] - fold.lastSeen) === Math.sign(fold.actual[step] - fold.lastSeen)
+    ).length;
+
+    return {
+      horizon: step + 1,
+      samples,
+      mae: errors.reduce((sum, error) => sum + Math.abs(error), 0) / samples,
+      rmse: Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / samples),
+      mape: (percentErrors.reduce((sum, error) => sum + error, 0) / samples) * 100,
+      directionalAccuracy: (correctCalls / samples) * 100,
+      hitRate: (percentErrors.filter(error => error <= hitTolerance).length / samples) * 100
+    };
+  });
+
+// Walk-forward evaluation: at each origin the forecaster only sees candles before it,
+// then its forecast is scored against the bars that actually followed
+export const walkForwardBacktest = async (
+  candles: Candle[],
+  forecaster: BacktestForecaster,
+  {
+    horizon,
+    window = 'expanding',
+    minTrainSize = Math.max(30, Math.floor(candles.length * 0.6)),
+    maxFolds = 10,
+    hitTolerance = 0.02,
+    onFold
+  }: BacktestOptions
+): Promise<BacktestResult> => {
+  if (candles.length < minTrainSize + horizon) {
+    throw new Error(`Backtest needs at least ${minTrainSize + horizon} candles, got ${candles.length}`);
+  }
+
+  // Stop early enough that every origin is scored on the full horizon
+  const origins = foldOrigins(candles.length - horizon + 1, minTrainSize, maxFolds);
+  const folds: BacktestFold[] = [];
+
+  for (const origin of origins) {
+    const start = window === 'rolling' ? origin - minTrainSize : 0;
+    const history = candles.slice(start, origin);
+    const forecast = await forecaster(history, horizon);
+    const actual = candles.slice(origin, origin + horizon).map(candle => candle.close);
+
+    folds.push({ origin, trainSize: history.length, lastSeen: history[history.length - 1].close, forecast, actual });
+    onFold?.(folds.length, origins.length);
+  }
+
+  return { window, folds, metrics: summarizeFolds(folds, horizon, hitTolerance) };
+};
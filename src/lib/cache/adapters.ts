@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+// Storage backend for the price cache
+export interface CacheAdapter {
+  name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// In-process map, evicting the least recently used entry beyond maxEntries
+export const createMemoryAdapter = (maxEntries = 500): CacheAdapter => {
+  const entries = new Map<string, CacheEntry<unknown>>();
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry as CacheEntry<T>;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+
+    async delete(key: string) {
+      entries.delete(key);
+    }
+  };
+};
+
+// One JSON file per key, so cached prices survive restarts
+export const createFileAdapter = (dir: string): CacheAdapter => {
+  const fileFor = (key: string) =>
+    path.join(dir, `${crypto.createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    name: 'file',
+
+    async get<T>(key: string) {
+      try {
+        const entry = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+        return entry?.key === key ? { value: entry.value as T, storedAt: entry.storedAt } : null;
+      } catch {
+        return null;
+      }
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const target = fileFor(key);
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify({ key, ...entry }));
+      await fs.rename(temp, target);
+    },
+
+    async delete(key: string) {
+      await fs.rm(fileFor(key), { force: true });
+    }
+  };
+};
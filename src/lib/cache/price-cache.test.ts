@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MarketDataRequest } from '../providers';
+import { CachedSeries, getCachedCandles, getTtlSeconds } from './price-cache';
+
+// Monday 6 January 2025, a regular NSE session (09:15–15:30 IST)
+const ist = (time: string) => new Date(`2025-01-06T${time}:00+05:30`);
+
+const series: CachedSeries = { candles: [], source: 'test' };
+
+const request = (symbol: string): MarketDataRequest => ({ symbol, exchange: 'NSE', range: '1y', interval: '1d' });
+
+// Fetch through the cache at an IST time, returning the cache status and loader calls
+const fetchAt = async (symbol: string, time: string) => {
+  vi.setSystemTime(ist(time));
+  const loader = vi.fn(async () => series);
+  const result = await getCachedCandles(request(symbol), loader);
+  return { status: result?.cache.status, loads: loader.mock.calls.length };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getTtlSeconds', () => {
+  it('is short for entries stored during the session', () => {
+    expect(getTtlSeconds(request('TCS'), ist('15:25'))).toBe(5 * 60);
+  });
+
+  it('lasts until the next open for entries stored after the close', () => {
+    // 16:00 Monday to 09:15 Tuesday
+    expect(getTtlSeconds(request('TCS'), ist('16:00'))).toBe((17 * 60 + 15) * 60);
+  });
+});
+
+describe('getCachedCandles', () => {
+  it('serves a session entry from cache within its TTL', async () => {
+    vi.useFakeTimers();
+    await fetchAt('INFY', '11:00');
+    expect(await fetchAt('INFY', '11:03')).toEqual({ status: 'hit', loads: 0 });
+  });
+
+  it('expires an entry fetched before the close once the session has closed', async () => {
+    vi.useFakeTimers();
+    await fetchAt('WIPRO', '15:25');
+    expect(await fetchAt('WIPRO', '15:31')).toEqual({ status: 'stale', loads: 1 });
+  });
+
+  it('keeps an entry fetched after the close until the next open', async () => {
+    vi.useFakeTimers();
+    await fetchAt('HDFCBANK', '16:00');
+    expect(await fetchAt('HDFCBANK', '22:00')).toEqual({ status: 'hit', loads: 0 });
+  });
+});
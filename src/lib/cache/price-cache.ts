@@ -0,0 +1,140 @@
+import path from 'path';
+import { CorporateAdjustment } from '../corporate-actions';
+import { DataQualityReport } from '../data-quality';
+import { Candle, isIntraday } from '../market-data';
+import { isMarketOpen, lastSessionClose, nextSessionOpen } from '../market-hours';
+import { MarketDataRequest } from '../providers';
+import { CacheAdapter, CacheEntry, createFileAdapter, createMemoryAdapter } from './adapters';
+
+export interface CachedSeries {
+  candles: Candle[];
+  source: string;
+  // Missing in entries cached before corporate actions and validation were added
+  adjustments?: CorporateAdjustment[];
+  dataQuality?: DataQualityReport;
+}
+
+export interface CacheInfo {
+  status: 'hit' | 'stale' | 'miss';
+  backend: string;
+  fetchedAt: string;
+  ageSeconds: number;
+  ttlSeconds: number;
+}
+
+// Fresh for a minute (intraday) or five (daily+) while the session runs
+const SESSION_TTL_SECONDS = { intraday: 60, daily: 5 * 60 };
+// After the close, data only changes at the next open; cap so bad clocks can't pin entries forever
+const MAX_CLOSED_TTL_SECONDS = 24 * 60 * 60;
+// Stale entries are still served (while refreshing) for up to a week
+const MAX_STALE_SECONDS = 7 * 24 * 60 * 60;
+
+// Pick the storage backend from PRICE_CACHE_BACKEND (memory | file)
+const createAdapter = (): CacheAdapter => {
+  if (process.env.PRICE_CACHE_BACKEND === 'file') {
+    return createFileAdapter(process.env.PRICE_CACHE_DIR || path.join(process.cwd(), '.cache', 'prices'));
+  }
+  return createMemoryAdapter();
+};
+
+let adapter: CacheAdapter | null = null;
+const getAdapter = (): CacheAdapter => {
+  if (!adapter) {
+    adapter = createAdapter();
+  }
+  return adapter;
+};
+
+// Background refreshes in flight, so concurrent requests share one upstream call
+const refreshes = new Map<string, Promise<CachedSeries | null>>();
+
+const cacheKey = ({ symbol, exchange, range, interval }: MarketDataRequest): string =>
+  `candles:${symbol.toUpperCase()}:${exchange}:${range}:${interval}`;
+
+// TTL of an entry stored at storedAt: short if the market was open then, otherwise until
+// the next session opens
+export const getTtlSeconds = (request: MarketDataRequest, storedAt: Date = new Date()): number => {
+  if (isMarketOpen(storedAt, request.exchange)) {
+    return isIntraday(request.interval) ? SESSION_TTL_SECONDS.intraday : SESSION_TTL_SECONDS.daily;
+  }
+  const untilOpen = Math.round((nextSessionOpen(storedAt, request.exchange).getTime() - storedAt.getTime()) / 1000);
+  return Math.min(MAX_CLOSED_TTL_SECONDS, untilOpen);
+};
+
+// Entries fetched before the latest close lack the closing bars, however young they are
+const isExpired = (request: MarketDataRequest, storedAt: number, ttlSeconds: number, now: number): boolean =>
+  now - storedAt > ttlSeconds * 1000 || storedAt < lastSessionClose(new Date(now), request.exchange).getTime();
+
+const describe = (entry: CacheEntry<CachedSeries>, status: CacheInfo['status'], ttlSeconds: number, now: number): CacheInfo => ({
+  status,
+  backend: getAdapter().name,
+  fetchedAt: new Date(entry.storedAt).toISOString(),
+  ageSeconds: Math.max(0, Math.round((now - entry.storedAt) / 1000)),
+  ttlSeconds
+});
+
+const refresh = (key: string, loader: () => Promise<CachedSeries | null>): Promise<CachedSeries | null> => {
+  const pending = refreshes.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = loader()
+    .then(async value => {
+      if (value) {
+        try {
+          await getAdapter().set(key, { value, storedAt: Date.now() });
+        } catch (error) {
+          console.warn('Price cache write failed:', error);
+        }
+      }
+      return value;
+    })
+    .finally(() => refreshes.delete(key));
+
+  refreshes.set(key, promise);
+  return promise;
+};
+
+// Serve candles from cache, revalidating stale entries in the background
+export const getCachedCandles = async (
+  request: MarketDataRequest,
+  loader: () => Promise<CachedSeries | null>
+): Promise<{ data: CachedSeries; cache: CacheInfo } | null> => {
+  const key = cacheKey(request);
+  const now = Date.now();
+
+  let entry: CacheEntry<CachedSeries> | null = null;
+  try {
+    entry = await getAdapter().get<CachedSeries>(key);
+  } catch (error) {
+    console.warn('Price cache read failed:', error);
+  }
+
+  const entryTtl = entry ? getTtlSeconds(request, new Date(entry.storedAt)) : 0;
+  if (entry) {
+    const ageSeconds = (now - entry.storedAt) / 1000;
+    if (!isExpired(request, entry.storedAt, entryTtl, now)) {
+      return { data: entry.value, cache: describe(entry, 'hit', entryTtl, now) };
+    }
+    if (ageSeconds <= entryTtl + MAX_STALE_SECONDS) {
+      refresh(key, loader).catch(error => console.warn('Background price refresh failed:', error));
+      return { data: entry.value, cache: describe(entry, 'stale', entryTtl, now) };
+    }
+  }
+
+  try {
+    const value = await refresh(key, loader);
+    if (value) {
+      return {
+        data: value,
+        cache: { status: 'miss', backend: getAdapter().name, fetchedAt: new Date().toISOString(), ageSeconds: 0, ttlSeconds: getTtlSeconds(request) }
+      };
+    }
+  } catch (error) {
+    console.warn('Price fetch failed:', error);
+  }
+
+  // Upstream is down: an expired entry is better than nothing
+  return entry ? { data: entry.value, cache: describe(entry, 'stale', entryTtl, now) } : null;
+};
@@ -0,0 +1,208 @@
+import { Candle } from './market-data';
+import { DEFAULT_FEATURES, FeatureSpec, featureName } from './features';
+import { bollinger, ema, macd, rsi, sma } from './indicators';
+
+// Indicators drawn on the chart. Values come from the same functions in indicators.ts
+// that build the model features, so the chart shows what the model is fed.
+export type IndicatorSpec =
+  | { kind: 'sma'; period: number }
+  | { kind: 'ema'; period: number }
+  | { kind: 'bollinger'; period: number; multiplier: number }
+  | { kind: 'rsi'; period: number }
+  | { kind: 'macd'; fast: number; slow: number; signal: number };
+
+export type IndicatorKind = IndicatorSpec['kind'];
+
+// price: overlaid on the price pane; rsi and macd get their own sub-panel
+export type IndicatorPane = 'price' | 'rsi' | 'macd';
+
+// Parameter names across all kinds
+export type IndicatorParamKey = 'period' | 'multiplier' | 'fast' | 'slow' | 'signal';
+
+export interface IndicatorParam {
+  key: IndicatorParamKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface IndicatorDefinition {
+  kind: IndicatorKind;
+  label: string;
+  pane: IndicatorPane;
+  params: IndicatorParam[];
+  defaults: IndicatorSpec;
+}
+
+const PERIOD: IndicatorParam = { key: 'period', label: 'Period', min: 2, max: 200, step: 1 };
+
+export const INDICATORS: IndicatorDefinition[] = [
+  { kind: 'sma', label: 'SMA', pane: 'price', params: [PERIOD], defaults: { kind: 'sma', period: 20 } },
+  { kind: 'ema', label: 'EMA', pane: 'price', params: [PERIOD], defaults: { kind: 'ema', period: 20 } },
+  {
+    kind: 'bollinger',
+    label: 'Bollinger Bands',
+    pane: 'price',
+    params: [PERIOD, { key: 'multiplier', label: 'Std devs', min: 0.5, max: 4, step: 0.5 }],
+    defaults: { kind: 'bollinger', period: 20, multiplier: 2 }
+  },
+  { kind: 'rsi', label: 'RSI', pane: 'rsi', params: [{ ...PERIOD, max: 100 }], defaults: { kind: 'rsi', period: 14 } },
+  {
+    kind: 'macd',
+    label: 'MACD',
+    pane: 'macd',
+    params: [
+      { key: 'fast', label: 'Fast', min: 2, max: 100, step: 1 },
+      { key: 'slow', label: 'Slow', min: 3, max: 200, step: 1 },
+      { key: 'signal', label: 'Signal', min: 2, max: 50, step: 1 }
+    ],
+    defaults: { kind: 'macd', fast: 12, slow: 26, signal: 9 }
+  }
+];
+
+export const getIndicator = (kind: IndicatorKind): IndicatorDefinition =>
+  INDICATORS.find(definition => definition.kind === kind) ?? INDICATORS[0];
+
+// One parameter of a spec; NaN when its kind has no such parameter
+export const indicatorParam = (spec: IndicatorSpec, key: IndicatorParamKey): number => {
+  const values: Partial<Record<IndicatorParamKey, number>> = spec;
+  return values[key] ?? NaN;
+};
+
+const paramValues = (spec: IndicatorSpec): number[] =>
+  getIndicator(spec.kind).params.map(param => indicatorParam(spec, param.key));
+
+// Display name, e.g. "SMA(20)" or "MACD(12, 26, 9)"
+export const indicatorLabel = (spec: IndicatorSpec): string =>
+  `${getIndicator(spec.kind).label.replace(' Bands', '')}(${paramValues(spec).join(', ')})`;
+
+// URL token, e.g. "sma-20", "bollinger-20-2" or "macd-12-26-9"
+export const indicatorKey = (spec: IndicatorSpec): string => [spec.kind, ...paramValues(spec)].join('-');
+
+// A spec with one parameter changed, clamped to the parameter's range. MACD keeps its
+// fast period below the slow one.
+export const withParam = (spec: IndicatorSpec, key: IndicatorParamKey, value: number): IndicatorSpec => {
+  const param = getIndicator(spec.kind).params.find(item => item.key === key);
+  if (!param || !Number.isFinite(value)) {
+    return spec;
+  }
+  const clamped = Math.min(param.max, Math.max(param.min, param.step < 1 ? value : Math.round(value)));
+  const next = { ...spec, [key]: clamped } as IndicatorSpec;
+  if (next.kind === 'macd' && next.fast >= next.slow) {
+    return spec;
+  }
+  return next;
+};
+
+// Parse a URL token back into a spec; null when the kind is unknown or a parameter is
+// missing or out of range
+export const parseIndicatorKey = (key: string): IndicatorSpec | null => {
+  const [kind, ...values] = key.split('-');
+  const definition = INDICATORS.find(item => item.kind === kind);
+  if (!definition || values.length !== definition.params.length) {
+    return null;
+  }
+  const spec: Record<string, unknown> = { kind };
+  for (let i = 0; i < values.length; i++) {
+    const param = definition.params[i];
+    const value = Number(values[i]);
+    if (!Number.isFinite(value) || value < param.min || value > param.max || (param.step >= 1 && !Number.isInteger(value))) {
+      return null;
+    }
+    spec[param.key] = value;
+  }
+  const parsed = spec as IndicatorSpec;
+  return parsed.kind === 'macd' && parsed.fast >= parsed.slow ? null : parsed;
+};
+
+// Specs in order with repeats removed
+export const uniqueIndicators = (specs: IndicatorSpec[]): IndicatorSpec[] => {
+  const seen = new Set<string>();
+  return specs.filter(spec => {
+    const key = indicatorKey(spec);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+// Parse URL tokens, dropping invalid ones and duplicates
+export const parseIndicatorKeys = (keys: string[]): IndicatorSpec[] =>
+  uniqueIndicators(keys.map(parseIndicatorKey).filter((spec): spec is IndicatorSpec => spec !== null));
+
+const URL_PARAM = 'indicator';
+
+// Indicators in the page URL, one `indicator=` parameter each (`?indicator=sma-20&indicator=rsi-14`)
+export const loadIndicatorsFromUrl = (): IndicatorSpec[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  return parseIndicatorKeys(new URLSearchParams(window.location.search).getAll(URL_PARAM));
+};
+
+// Replace the indicators in the URL, keeping other parameters, without adding a history entry
+export const saveIndicatorsToUrl = (specs: IndicatorSpec[]): void => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(URL_PARAM);
+  for (const spec of specs) {
+    url.searchParams.append(URL_PARAM, indicatorKey(spec));
+  }
+  window.history.replaceState(window.history.state, '', url);
+};
+
+// The model feature computed from the same indicator, if the default models use one
+export const modelFeatureFor = (spec: IndicatorSpec): FeatureSpec | null => {
+  const feature: FeatureSpec = spec.kind === 'sma'
+    ? { kind: 'sma-ratio', period: spec.period }
+    : spec.kind === 'ema'
+      ? { kind: 'ema-ratio', period: spec.period }
+      : spec.kind === 'bollinger'
+        ? { kind: 'bollinger-b', period: spec.period, multiplier: spec.multiplier }
+        : spec.kind === 'rsi'
+          ? { kind: 'rsi', period: spec.period }
+          : { kind: 'macd-histogram', fast: spec.fast, slow: spec.slow, signal: spec.signal };
+  return DEFAULT_FEATURES.some(item => featureName(item) === featureName(feature)) ? feature : null;
+};
+
+// One plotted line (or histogram) of an indicator, aligned with the candles; null
+// during the warm-up period
+export interface IndicatorSeries {
+  label: string;
+  role: 'line' | 'upper' | 'lower' | 'signal' | 'histogram';
+  values: (number | null)[];
+}
+
+const toPoints = (values: number[]): (number | null)[] =>
+  values.map(value => (Number.isFinite(value) ? value : null));
+
+export const computeIndicator = (candles: Candle[], spec: IndicatorSpec): IndicatorSeries[] => {
+  const closes = candles.map(candle => candle.close);
+  const label = indicatorLabel(spec);
+  switch (spec.kind) {
+    case 'sma':
+      return [{ label, role: 'line', values: toPoints(sma(closes, spec.period)) }];
+    case 'ema':
+      return [{ label, role: 'line', values: toPoints(ema(closes, spec.period)) }];
+    case 'bollinger': {
+      const bands = bollinger(closes, spec.period, spec.multiplier);
+      return [
+        { label: `${label} Middle`, role: 'line', values: toPoints(bands.middle) },
+        { label: `${label} Lower`, role: 'lower', values: toPoints(bands.lower) },
+        { label: `${label} Upper`, role: 'upper', values: toPoints(bands.upper) }
+      ];
+    }
+    case 'rsi':
+      return [{ label, role: 'line', values: toPoints(rsi(closes, spec.period)) }];
+    case 'macd': {
+      const series = macd(closes, spec.fast, spec.slow, spec.signal);
+      return [
+        { label, role: 'line', values: toPoints(series.macd) },
+        { label: `${label} Signal`, role: 'signal', values: toPoints(series.signal) },
+        { label: `${label} Histogram`, role: 'histogram', values: toPoints(series.histogram) }
+      ];
+    }
+  }
+};
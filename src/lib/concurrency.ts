@@ -0,0 +1,18 @@
+// Run `task` over `items` with at most `limit` calls in flight, keeping results in input
+// order. A rejected task rejects the whole batch, so tasks should catch their own errors.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+};
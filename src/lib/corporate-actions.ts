@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseCsvRecords } from './csv';
+import { Candle, Exchange } from './market-data';
+
+export type CorporateActionType = 'split' | 'bonus' | 'dividend';
+
+// A split, bonus issue or cash dividend, keyed by its ex-date
+export interface CorporateAction {
+  date: string;
+  type: CorporateActionType;
+  // Shares held after the action per share held before it: a 1:5 split is 5, a 1:1
+  // bonus 2. Always 1 for dividends.
+  ratio: number;
+  // Cash per share for dividends, 0 otherwise
+  amount: number;
+  // Provider that reported it, or 'manual' for the adjustments file
+  source: string;
+}
+
+// How an action was applied to a series. Splits and bonuses are skipped when the
+// series shows no matching jump at the ex-date, i.e. the provider already adjusted it.
+export interface CorporateAdjustment extends CorporateAction {
+  status: 'applied' | 'already-adjusted';
+  // Multiplier applied to close (splits, bonuses) or adjClose (dividends) before the ex-date
+  priceFactor: number;
+}
+
+// A row of the adjustments file; EXCHANGE is empty when it applies to both exchanges
+interface ManualAction {
+  symbol: string;
+  exchange: string;
+  action: CorporateAction;
+}
+
+// Manual adjustments for actions a provider misses; CORPORATE_ACTIONS_FILE overrides the path
+const actionsFile = () => process.env.CORPORATE_ACTIONS_FILE || path.join(process.cwd(), 'data', 'corporate-actions.csv');
+
+// "5:1" → [5, 1]
+const parseRatio = (value: string): [number, number] | null => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+  const [a, b] = [parseFloat(match[1]), parseFloat(match[2])];
+  return a > 0 && b > 0 ? [a, b] : null;
+};
+
+// One row of the adjustments file. Splits give RATIO as new:old shares (5:1 for a face
+// value of ₹10 split to ₹2), bonuses as announced, bonus:held (1:1, 3:2), and dividends
+// an AMOUNT in rupees per share.
+const toManualAction = (record: Record<string, string>): ManualAction | null => {
+  const symbol = (record.SYMBOL ?? '').trim().toUpperCase();
+  const date = (record.EX_DATE ?? '').trim();
+  const type = (record.TYPE ?? '').trim().toLowerCase();
+  if (!symbol || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return null;
+  }
+  const row = (action: Omit<CorporateAction, 'date' | 'source'>): ManualAction => ({
+    symbol,
+    exchange: (record.EXCHANGE ?? '').trim().toUpperCase(),
+    action: { ...action, date, source: 'manual' }
+  });
+
+  if (type === 'dividend') {
+    const amount = parseFloat(record.AMOUNT ?? '');
+    return amount > 0 ? row({ type, ratio: 1, amount }) : null;
+  }
+  const ratio = parseRatio(record.RATIO ?? '');
+  if (!ratio) {
+    return null;
+  }
+  if (type === 'split') {
+    return row({ type, ratio: ratio[0] / ratio[1], amount: 0 });
+  }
+  if (type === 'bonus') {
+    return row({ type, ratio: (ratio[0] + ratio[1]) / ratio[1], amount: 0 });
+  }
+  return null;
+};
+
+let manualActions: Promise<ManualAction[]> | null = null;
+
+// Manual actions for one symbol; an entry without EXCHANGE applies to both exchanges.
+// A missing file simply means there are none.
+export const loadManualActions = async (symbol: string, exchange: Exchange): Promise<CorporateAction[]> => {
+  if (!manualActions) {
+    manualActions = fs.readFile(actionsFile(), 'utf8')
+      .then(text => parseCsvRecords(text).map(toManualAction).filter((row): row is ManualAction => row !== null))
+      .catch(error => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn('Could not load manual corporate actions:', error);
+        }
+        return [];
+      });
+  }
+  const upper = symbol.toUpperCase();
+  return (await manualActions)
+    .filter(row => row.symbol === upper && (!row.exchange || row.exchange === exchange))
+    .map(row => row.action);
+};
+
+// Combine provider and manual actions; a manual entry replaces the provider's action
+// of the same type on the same ex-date
+export const mergeActions = (provided: CorporateAction[], manual: CorporateAction[]): CorporateAction[] => {
+  const key = (action: CorporateAction) => `${action.date}:${action.type === 'dividend' ? 'dividend' : 'split'}`;
+  const merged = new Map(provided.map(action => [key(action), action]));
+  for (const action of manual) {
+    merged.set(key(action), action);
+  }
+  return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Back-adjust a series so it is continuous across corporate actions. Splits and bonuses
+// divide open/high/low/close (and multiply volume) before the ex-date by the share
+// ratio, but only when the price actually jumps by roughly that ratio there; the jump
+// is compared in log terms, so a series the provider already adjusted is left alone.
+// adjClose is then rebuilt from the adjusted close and the dividends, so it never
+// double-counts a provider's own dividend adjustment. Actions outside the series are
+// dropped. For weekly and monthly bars the ex-date lands inside a bar, which is treated
+// as post-action.
+export const applyCorporateActions = (
+  candles: Candle[],
+  actions: CorporateAction[]
+): { candles: Candle[]; adjustments: CorporateAdjustment[] } => {
+  const adjusted = candles.map(candle => ({ ...candle }));
+  const adjustments: CorporateAdjustment[] = [];
+  // First bar on or after each ex-date; intraday timestamps compare correctly against dates
+  const exIndex = (date: string) => adjusted.findIndex(candle => candle.date >= date);
+
+  for (const action of actions.filter(item => item.type !== 'dividend')) {
+    const index = exIndex(action.date);
+    if (index <= 0 || action.ratio === 1) {
+      continue;
+    }
+    const before = candles[index - 1].close;
+    const after = candles[index].open > 0 ? candles[index].open : candles[index].close;
+    const jump = Math.log(before / after);
+    const expected = Math.log(action.ratio);
+    if (Math.abs(jump - expected) >= Math.abs(jump)) {
+      adjustments.push({ ...action, status: 'already-adjusted', priceFactor: 1 });
+      continue;
+    }
+
+    const priceFactor = 1 / action.ratio;
+    for (let i = 0; i < index; i++) {
+      const candle = adjusted[i];
+      candle.open *= priceFactor;
+      candle.high *= priceFactor;
+      candle.low *= priceFactor;
+      candle.close *= priceFactor;
+      candle.volume = Math.round(candle.volume * action.ratio);
+    }
+    adjustments.push({ ...action, status: 'applied', priceFactor });
+  }
+
+  // Dividends scale everything before the ex-date by 1 - dividend / previous close, using
+  // the close as received so the amount and price share the same per-share basis
+  const dividendFactors = adjusted.map(() => 1);
+  for (const action of actions.filter(item => item.type === 'dividend')) {
+    const index = exIndex(action.date);
+    const previousClose = index > 0 ? candles[index - 1].close : 0;
+    if (index <= 0 || action.amount >= previousClose) {
+      continue;
+    }
+    const priceFactor = 1 - action.amount / previousClose;
+    for (let i = 0; i < index; i++) {
+      dividendFactors[i] *= priceFactor;
+    }
+    adjustments.push({ ...action, status: 'applied', priceFactor });
+  }
+
+  for (let i = 0; i < adjusted.length; i++) {
+    const candle = adjusted[i];
+    candle.open = parseFloat(candle.open.toFixed(2));
+    candle.high = parseFloat(candle.high.toFixed(2));
+    candle.low = parseFloat(candle.low.toFixed(2));
+    candle.close = parseFloat(candle.close.toFixed(2));
+    candle.adjClose = parseFloat((candle.close * dividendFactors[i]).toFixed(2));
+  }
+
+  return { candles: adjusted, adjustments: adjustments.sort((a, b) => a.date.localeCompare(b.date)) };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { validateSeries } from './data-quality';
+import { Candle } from './market-data';
+
+// Hourly bars, so the calendar checks for missing daily sessions stay out of the way
+const hourly = (closes: number[]): Candle[] =>
+  closes.map((close, i) => ({
+    date: new Date(Date.UTC(2025, 0, 6, 4 + (i % 6)) + Math.floor(i / 6) * 86400000).toISOString(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    adjClose: close,
+    volume: 1000
+  }));
+
+const suspiciousDates = (closes: number[]) => {
+  const { report } = validateSeries(hourly(closes), { interval: '1h' });
+  return { status: report.status, dates: report.issues.filter(issue => issue.type === 'suspicious-return').map(issue => issue.date) };
+};
+
+describe('validateSeries suspicious returns', () => {
+  const flat = Array.from({ length: 200 }, () => 100);
+
+  it('flags a single unexplained jump on its bar without breaking the series', () => {
+    const closes = flat.map((close, i) => (i >= 100 ? 150 : close));
+    const { status, dates } = suspiciousDates(closes);
+    expect(dates).toEqual([hourly(closes)[100].date]);
+    expect(status).toBe('warning');
+  });
+
+  it('keeps a one-bar bad tick at a warning', () => {
+    const { status, dates } = suspiciousDates(flat.map((close, i) => (i === 50 ? 140 : close)));
+    expect(dates).toHaveLength(2);
+    expect(status).toBe('warning');
+  });
+
+  it('marks the series broken once suspicious moves recur', () => {
+    const { status, dates } = suspiciousDates(flat.map((close, i) => (i % 50 === 25 ? 140 : close)));
+    expect(dates.length).toBeGreaterThanOrEqual(3);
+    expect(status).toBe('broken');
+  });
+
+  it.each([21, 30, 40])('keeps a %i-bar series with one bad tick at a warning', length => {
+    const { status, dates } = suspiciousDates(Array.from({ length }, (_, i) => (i === 10 ? 140 : 100)));
+    expect(dates).toHaveLength(2);
+    expect(status).toBe('warning');
+  });
+
+  it('marks a short series broken when two events are a large share of its bars', () => {
+    const { status } = suspiciousDates(Array.from({ length: 30 }, (_, i) => (i === 8 || i === 20 ? 140 : 100)));
+    expect(status).toBe('broken');
+  });
+
+  it('counts two moves in the same direction as separate events', () => {
+    // +50% then +40%: not a tick that reverts, so with a third jump the series is broken
+    const closes = Array.from({ length: 200 }, (_, i) => (i < 50 ? 100 : i < 51 ? 150 : i < 120 ? 210 : 300));
+    expect(suspiciousDates(closes).status).toBe('broken');
+  });
+});
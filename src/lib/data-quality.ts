@@ -0,0 +1,207 @@
+import type { CorporateAction } from './corporate-actions';
+import { BarInterval, Candle, Exchange, isIntraday } from './market-data';
+import { isTradingDay, tradingDaysBetween } from './trading-calendar';
+
+export type DataQualityIssueType =
+  | 'duplicate-date'
+  | 'non-positive-price'
+  | 'dropped-bar'
+  | 'inconsistent-bar'
+  | 'non-trading-day'
+  | 'circuit-limit'
+  | 'suspicious-return'
+  | 'zero-volume';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  // error: the bar was removed; warning: kept but suspect; info: worth knowing
+  severity: 'info' | 'warning' | 'error';
+  date: string;
+  message: string;
+}
+
+export interface DataQualityReport {
+  // broken: gaps or repeated suspicious bars likely to mislead a model trained on the series
+  status: 'ok' | 'warning' | 'broken';
+  bars: number;
+  // Sessions the trading calendar expects from the first to the last bar (daily bars only)
+  expectedSessions: number | null;
+  missingSessions: string[];
+  // Most consecutive missing sessions
+  longestGap: number;
+  // Missing sessions filled with flat bars on request
+  filledSessions: string[];
+  issues: DataQualityIssue[];
+}
+
+// A close-to-close move beyond this with no corporate action is flagged
+const SUSPICIOUS_RETURN = 0.2;
+// NSE/BSE price bands; a close pinned to one at the day's high or low is a circuit hit
+const PRICE_BANDS = [0.02, 0.05, 0.1, 0.2];
+const BAND_TOLERANCE = 0.0025;
+// More missing sessions than this share, or a gap this long, marks a daily series broken;
+// exchange holidays never close the market for more than a few sessions in a row
+const BROKEN_MISSING_SHARE = 0.1;
+const BROKEN_GAP_SESSIONS = 4;
+// Suspicious moves are flagged on their bars and counted as events, a bad tick and its
+// reversal being one. This many events, or at least two that are more than this share
+// of the bars, mark the series broken.
+const BROKEN_SUSPICIOUS_EVENTS = 3;
+const BROKEN_SUSPICIOUS_SHARE = 0.05;
+const MIN_EVENTS_FOR_SHARE = 2;
+
+const percent = (value: number): string => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+// Consecutive runs in a sorted list of missing sessions, measured in trading days
+const longestRun = (missing: string[], exchange: Exchange): number => {
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < missing.length; i++) {
+    run = i > 0 && tradingDaysBetween(missing[i - 1], missing[i], exchange).length === 0 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+};
+
+// Check a fetched series and return it cleaned: sorted, one bar per date, no bars with
+// zero or negative prices, and high/low widened to cover open and close. Everything
+// found is listed in the report, along with sessions the calendar expected but the
+// series lacks (daily bars), closes pinned at a price band, and returns above 20%
+// that no corporate action explains. Weekly and monthly bars mix several sessions,
+// so only the structural checks apply to them.
+export const validateSeries = (
+  candles: Candle[],
+  {
+    interval,
+    exchange = 'NSE',
+    actions = [],
+    dropped = []
+  }: { interval: BarInterval; exchange?: Exchange; actions?: CorporateAction[]; dropped?: string[] }
+): { candles: Candle[]; report: DataQualityReport } => {
+  const issues: DataQualityIssue[] = dropped.map(date => ({
+    type: 'dropped-bar',
+    severity: 'error',
+    date,
+    message: 'The data source listed this bar without a close; it was left out'
+  }));
+
+  const byDate = new Map<string, Candle>();
+  for (const candle of [...candles].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (byDate.has(candle.date)) {
+      issues.push({ type: 'duplicate-date', severity: 'error', date: candle.date, message: 'Duplicate bar; the last one was kept' });
+    }
+    byDate.set(candle.date, candle);
+  }
+
+  const cleaned: Candle[] = [];
+  for (const candle of byDate.values()) {
+    if ([candle.open, candle.high, candle.low, candle.close].some(value => !(value > 0))) {
+      issues.push({ type: 'non-positive-price', severity: 'error', date: candle.date, message: 'Zero or negative price; the bar was removed' });
+      continue;
+    }
+    const high = Math.max(candle.high, candle.open, candle.close);
+    const low = Math.min(candle.low, candle.open, candle.close);
+    if (high !== candle.high || low !== candle.low) {
+      issues.push({ type: 'inconsistent-bar', severity: 'warning', date: candle.date, message: 'High/low did not cover open and close; widened to fit' });
+    }
+    cleaned.push({ ...candle, high, low });
+  }
+
+  const daily = interval === '1d';
+  const perSession = daily || isIntraday(interval);
+  const actionDates = new Set(actions.map(action => action.date));
+  let suspiciousEvents = 0;
+  let lastSpike: { index: number; change: number } | null = null;
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const { date, high, low, close, volume } = cleaned[i];
+    if (daily && !isTradingDay(date, exchange)) {
+      issues.push({ type: 'non-trading-day', severity: 'warning', date, message: 'Bar on a day the exchange was closed' });
+    }
+    if (daily && volume === 0) {
+      issues.push({ type: 'zero-volume', severity: 'info', date, message: 'No volume traded' });
+    }
+    if (!perSession || i === 0) {
+      continue;
+    }
+
+    const change = close / cleaned[i - 1].close - 1;
+    if (Math.abs(change) > SUSPICIOUS_RETURN && !actionDates.has(date.slice(0, 10))) {
+      // A bad tick moves away and straight back; the move back is part of the same event
+      const reversal: boolean = lastSpike !== null && lastSpike.index === i - 1 && Math.sign(lastSpike.change) !== Math.sign(change);
+      if (!reversal) {
+        suspiciousEvents++;
+      }
+      lastSpike = reversal ? null : { index: i, change };
+      issues.push({
+        type: 'suspicious-return',
+        severity: 'warning',
+        date,
+        message: `${percent(change)} move with no corporate action on record; possibly an unadjusted split or bad tick`
+      });
+    }
+    const band = PRICE_BANDS.find(limit => Math.abs(Math.abs(change) - limit) <= BAND_TOLERANCE);
+    const pinned = change > 0 ? close === high : close === low;
+    if (daily && band !== undefined && pinned) {
+      issues.push({
+        type: 'circuit-limit',
+        severity: 'info',
+        date,
+        message: `Closed at the ${band * 100}% ${change > 0 ? 'upper' : 'lower'} circuit; the close may understate the move`
+      });
+    }
+  }
+
+  const first = cleaned[0]?.date;
+  const last = cleaned[cleaned.length - 1]?.date;
+  const present = new Set(cleaned.map(candle => candle.date));
+  const expected = daily && first && last ? [first, ...tradingDaysBetween(first, last, exchange), ...(last !== first ? [last] : [])] : null;
+  const missingSessions = expected ? expected.filter(date => !present.has(date)) : [];
+  const longestGap = longestRun(missingSessions, exchange);
+
+  const broken = (expected !== null && missingSessions.length > expected.length * BROKEN_MISSING_SHARE)
+    || longestGap >= BROKEN_GAP_SESSIONS
+    || suspiciousEvents >= BROKEN_SUSPICIOUS_EVENTS
+    || (suspiciousEvents >= MIN_EVENTS_FOR_SHARE && suspiciousEvents > cleaned.length * BROKEN_SUSPICIOUS_SHARE);
+  const noteworthy = missingSessions.length > 0 || issues.some(issue => issue.severity !== 'info');
+
+  return {
+    candles: cleaned,
+    report: {
+      status: broken ? 'broken' : noteworthy ? 'warning' : 'ok',
+      bars: cleaned.length,
+      expectedSessions: expected ? expected.length : null,
+      missingSessions,
+      longestGap,
+      filledSessions: [],
+      issues: issues.sort((a, b) => a.date.localeCompare(b.date))
+    }
+  };
+};
+
+// Fill the report's missing sessions with flat bars at the previous close and no volume,
+// for consumers that need one bar per session
+export const fillMissingSessions = (
+  candles: Candle[],
+  report: DataQualityReport,
+  exchange: Exchange = 'NSE'
+): { candles: Candle[]; report: DataQualityReport } => {
+  if (report.missingSessions.length === 0) {
+    return { candles, report };
+  }
+  const missing = new Set(report.missingSessions);
+  const filled: Candle[] = [];
+  const filledSessions: string[] = [];
+  for (const candle of candles) {
+    const previous = filled[filled.length - 1];
+    if (previous) {
+      for (const date of tradingDaysBetween(previous.date, candle.date, exchange).filter(day => missing.has(day))) {
+        const { close, adjClose } = previous;
+        filled.push({ date, open: close, high: close, low: close, close, adjClose, volume: 0 });
+        filledSessions.push(date);
+      }
+    }
+    filled.push(candle);
+  }
+  return { candles: filled, report: { ...report, filledSessions } };
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_FEATURES,
+  FeatureSpec,
+  featureMatrix,
+  featureMemory,
+  featureName,
+  featureWarmup,
+  findLookAheadFeatures
+} from './features';
+import { Candle } from './market-data';
+
+// One spec of every kind; a kind added to FeatureSpec without an entry here fails to compile
+const SPECS_BY_KIND: Record<FeatureSpec['kind'], FeatureSpec> = {
+  'return': { kind: 'return', period: 3 },
+  'sma-ratio': { kind: 'sma-ratio', period: 10 },
+  'ema-ratio': { kind: 'ema-ratio', period: 10 },
+  'rsi': { kind: 'rsi', period: 14 },
+  'macd-histogram': { kind: 'macd-histogram', fast: 12, slow: 26, signal: 9 },
+  'bollinger-b': { kind: 'bollinger-b', period: 20, multiplier: 2 },
+  'atr-ratio': { kind: 'atr-ratio', period: 14 },
+  'obv-zscore': { kind: 'obv-zscore', period: 20 },
+  'zscore': { kind: 'zscore', period: 20 },
+  'volatility': { kind: 'volatility', period: 10 }
+};
+const ALL_SPECS = Object.values(SPECS_BY_KIND);
+
+// Deterministic noisy OHLCV series
+const makeCandles = (length: number, seed = 1): Candle[] => {
+  let state = seed;
+  const random = () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+  let close = 100;
+  return Array.from({ length }, (_, i) => {
+    const open = close;
+    close = Math.max(1, close * (1 + (random() - 0.5) * 0.04));
+    return {
+      date: `bar-${String(i).padStart(4, '0')}`,
+      open,
+      high: Math.max(open, close) * (1 + random() * 0.01),
+      low: Math.min(open, close) * (1 - random() * 0.01),
+      close,
+      adjClose: close,
+      volume: Math.round(1000 + random() * 5000)
+    };
+  });
+};
+
+const sameValue = (a: number, b: number) => (isNaN(a) && isNaN(b)) || Math.abs(a - b) <= 1e-9 * (1 + Math.abs(a));
+
+describe('feature look-ahead', () => {
+  const candles = makeCandles(200);
+
+  it.each(ALL_SPECS.map(spec => [featureName(spec), spec] as const))('%s reads no future bars', (_, spec) => {
+    expect(findLookAheadFeatures(candles, [spec], 8)).toEqual([]);
+  });
+
+  it.each(ALL_SPECS.map(spec => [featureName(spec), spec] as const))(
+    '%s rows are unchanged when later bars are altered',
+    (_, spec) => {
+      const full = featureMatrix(candles, [spec]);
+      for (const cut of [40, 80, 120, 160]) {
+        const altered = [...candles.slice(0, cut + 1), ...makeCandles(candles.length - cut - 1, cut)];
+        const rows = featureMatrix(altered, [spec]);
+        for (let i = 0; i <= cut; i++) {
+          expect(sameValue(rows[i][0], full[i][0]), `bar ${i} with bars after ${cut} altered`).toBe(true);
+        }
+      }
+    }
+  );
+
+  it('checks the default model features', () => {
+    expect(findLookAheadFeatures(candles, DEFAULT_FEATURES)).toEqual([]);
+  });
+});
+
+describe('featureMatrix', () => {
+  it.each(ALL_SPECS.map(spec => [featureName(spec), spec] as const))('%s is NaN exactly during its warm-up', (_, spec) => {
+    const column = featureMatrix(makeCandles(120), [spec]).map(row => row[0]);
+    expect(column.findIndex(value => !isNaN(value))).toBe(featureWarmup(spec));
+    expect(column.slice(featureWarmup(spec)).every(value => isFinite(value))).toBe(true);
+  });
+});
+
+describe('featureMemory', () => {
+  const candles = makeCandles(800, 7);
+
+  it.each(ALL_SPECS.map(spec => [featureName(spec), spec] as const))(
+    '%s from its warm-up and memory matches the full-series value',
+    (_, spec) => {
+      const full = featureMatrix(candles, [spec]);
+      const tail = featureMatrix(candles.slice(-(featureWarmup(spec) + 1 + featureMemory(spec))), [spec]);
+      expect(tail[tail.length - 1][0]).toBeCloseTo(full[full.length - 1][0], 4);
+    }
+  );
+
+  it('is needed by the smoothed features', () => {
+    // A tail of only the warm-up starts RSI from a different seed than the full series
+    const spec: FeatureSpec = { kind: 'rsi', period: 14 };
+    const full = featureMatrix(candles, [spec]);
+    const short = featureMatrix(candles.slice(-(featureWarmup(spec) + 20)), [spec]);
+    expect(Math.abs(short[short.length - 1][0] - full[full.length - 1][0])).toBeGreaterThan(1e-3);
+  });
+});
@@ -0,0 +1,151 @@
+import { Candle } from './market-data';
+import { atr, bollinger, ema, logReturns, macd, obv, rollingStd, rsi, sma, zScore } from './indicators';
+
+// Declarative model inputs. Every feature is scale-free (ratios, oscillators or
+// z-scores) so one network can be used across price levels.
+export type FeatureSpec =
+  | { kind: 'return'; period: number }
+  | { kind: 'sma-ratio'; period: number }
+  | { kind: 'ema-ratio'; period: number }
+  | { kind: 'rsi'; period: number }
+  | { kind: 'macd-histogram'; fast: number; slow: number; signal: number }
+  | { kind: 'bollinger-b'; period: number; multiplier: number }
+  | { kind: 'atr-ratio'; period: number }
+  | { kind: 'obv-zscore'; period: number }
+  | { kind: 'zscore'; period: number }
+  | { kind: 'volatility'; period: number };
+
+// Bumped whenever a feature's definition changes, so saved models trained on the old
+// definition are not reused
+export const FEATURE_VERSION = 3;
+
+export const DEFAULT_FEATURES: FeatureSpec[] = [
+  { kind: 'return', period: 1 },
+  { kind: 'return', period: 5 },
+  { kind: 'sma-ratio', period: 5 },
+  { kind: 'sma-ratio', period: 20 },
+  { kind: 'rsi', period: 14 },
+  { kind: 'macd-histogram', fast: 12, slow: 26, signal: 9 },
+  { kind: 'bollinger-b', period: 20, multiplier: 2 },
+  { kind: 'atr-ratio', period: 14 },
+  { kind: 'obv-zscore', period: 20 },
+  { kind: 'volatility', period: 10 }
+];
+
+export const featureName = (spec: FeatureSpec): string => {
+  switch (spec.kind) {
+    case 'macd-histogram':
+      return `macd-histogram(${spec.fast},${spec.slow},${spec.signal})`;
+    case 'bollinger-b':
+      return `bollinger-b(${spec.period},${spec.multiplier})`;
+    default:
+      return `${spec.kind}(${spec.period})`;
+  }
+};
+
+// Bars needed before the feature has a value
+export const featureWarmup = (spec: FeatureSpec): number => {
+  switch (spec.kind) {
+    case 'macd-histogram':
+      return spec.slow + spec.signal - 2;
+    case 'return':
+    case 'rsi':
+      return spec.period;
+    case 'volatility':
+      return spec.period;
+    default:
+      return spec.period - 1;
+  }
+};
+
+export const maxWarmup = (specs: FeatureSpec[]): number =>
+  Math.max(0, ...specs.map(featureWarmup));
+
+// Relative weight of the seed below which a smoothed series counts as converged
+const SEED_TOLERANCE = 1e-6;
+
+// Bars for exponential smoothing that keeps `decay` of its previous value to forget its seed
+const barsToForget = (decay: number): number => Math.ceil(Math.log(SEED_TOLERANCE) / Math.log(decay));
+
+// Bars after the warm-up until the feature no longer depends on where the series starts.
+// EMAs and Wilder's smoothing (RSI, ATR) carry their seed forward with geometrically
+// decaying weight; the rest read a fixed window (OBV z-scores ignore OBV's starting level).
+export const featureMemory = (spec: FeatureSpec): number => {
+  switch (spec.kind) {
+    case 'ema-ratio':
+      return barsToForget((spec.period - 1) / (spec.period + 1));
+    case 'rsi':
+    case 'atr-ratio':
+      return barsToForget((spec.period - 1) / spec.period);
+    case 'macd-histogram':
+      return barsToForget((spec.slow - 1) / (spec.slow + 1)) + barsToForget((spec.signal - 1) / (spec.signal + 1));
+    default:
+      return 0;
+  }
+};
+
+// One feature column aligned with the candles (NaN during warm-up)
+const featureColumn = (candles: Candle[], closes: number[], spec: FeatureSpec): number[] => {
+  switch (spec.kind) {
+    case 'return':
+      return logReturns(closes, spec.period);
+    case 'sma-ratio': {
+      const average = sma(closes, spec.period);
+      return closes.map((close, i) => close / average[i] - 1);
+    }
+    case 'ema-ratio': {
+      const average = ema(closes, spec.period);
+      return closes.map((close, i) => close / average[i] - 1);
+    }
+    case 'rsi':
+      // Centred and scaled to roughly -1..1
+      return rsi(closes, spec.period).map(value => (value - 50) / 50);
+    case 'macd-histogram': {
+      const { histogram } = macd(closes, spec.fast, spec.slow, spec.signal);
+      return histogram.map((value, i) => value / closes[i]);
+    }
+    case 'bollinger-b':
+      return bollinger(closes, spec.period, spec.multiplier).percentB;
+    case 'atr-ratio': {
+      const ranges = atr(candles, spec.period);
+      return ranges.map((value, i) => value / closes[i]);
+    }
+    case 'obv-zscore':
+      return zScore(obv(candles), spec.period);
+    case 'zscore':
+      return zScore(closes, spec.period);
+    case 'volatility':
+      return rollingStd(logReturns(closes).map(value => (isNaN(value) ? 0 : value)), spec.period)
+        .map((value, i) => (i >= spec.period ? value : NaN));
+  }
+};
+
+// Feature rows (bars x features) for the candles; rows before the longest warm-up contain NaN
+export const featureMatrix = (candles: Candle[], specs: FeatureSpec[]): number[][] => {
+  const closes = candles.map(candle => candle.close);
+  const columns = specs.map(spec => featureColumn(candles, closes, spec));
+  return candles.map((_, i) => columns.map(column => column[i]));
+};
+
+const sameValue = (a: number, b: number): boolean =>
+  (isNaN(a) && isNaN(b)) || Math.abs(a - b) <= 1e-9 * (1 + Math.abs(a));
+
+// Features whose value at some bar changes when the bars after it are removed, i.e.
+// that read the future. Checked at a few cut points; an empty result means causal.
+export const findLookAheadFeatures = (candles: Candle[], specs: FeatureSpec[], checkpoints = 4): string[] => {
+  const full = featureMatrix(candles, specs);
+  const first = Math.min(maxWarmup(specs), candles.length - 1);
+  const last = candles.length - 2;
+  const leaking = new Set<string>();
+
+  for (let c = 0; c < checkpoints && last >= first; c++) {
+    const cut = Math.round(first + ((last - first) * c) / Math.max(1, checkpoints - 1));
+    const prefixRow = featureMatrix(candles.slice(0, cut + 1), specs)[cut];
+    specs.forEach((spec, j) => {
+      if (!sameValue(prefixRow[j], full[cut][j])) {
+        leaking.add(featureName(spec));
+      }
+    });
+  }
+  return [...leaking];
+};
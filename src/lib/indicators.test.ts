@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { FeatureSpec, featureWarmup } from './features';
+import { atr, bollinger, ema, logReturns, macd, obv, returns, rollingStd, rsi, sma, zScore } from './indicators';
+import { Candle } from './market-data';
+
+// Compare a series to expected values, where NaN marks the warm-up
+const expectSeries = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (isNaN(value)) {
+      expect(actual[i], `index ${i}`).toBeNaN();
+    } else {
+      expect(actual[i], `index ${i}`).toBeCloseTo(value, 9);
+    }
+  });
+};
+
+const firstValid = (values: number[]): number => values.findIndex(value => !isNaN(value));
+
+const candle = (close: number, fields: Partial<Candle> = {}): Candle => ({
+  date: '2025-01-01',
+  open: close,
+  high: close,
+  low: close,
+  close,
+  adjClose: close,
+  volume: 1000,
+  ...fields
+});
+
+// A wavy, trending series long enough for every default window
+const wave = Array.from({ length: 120 }, (_, i) => 100 + 10 * Math.sin(i / 5) + i * 0.3);
+const waveCandles = wave.map((close, i) => candle(close, { high: close + 1, low: close - 1, volume: 1000 + (i % 7) * 100 }));
+
+describe('sma', () => {
+  it('averages the trailing window', () => {
+    expectSeries(sma([1, 2, 3, 4, 5], 3), [NaN, NaN, 2, 3, 4]);
+  });
+
+  it('is all warm-up when the series is shorter than the period', () => {
+    expectSeries(sma([1, 2], 5), [NaN, NaN]);
+  });
+});
+
+describe('ema', () => {
+  it('is seeded with the SMA of the first period', () => {
+    // alpha = 0.5: 4 → 0.5·8 + 0.5·4 = 6 → 0.5·12 + 0.5·6 = 9
+    expectSeries(ema([2, 4, 6, 8, 12], 3), [NaN, NaN, 4, 6, 9]);
+  });
+
+  it('is all warm-up when the series is shorter than the period', () => {
+    expectSeries(ema([1, 2], 3), [NaN, NaN]);
+  });
+});
+
+describe('rollingStd', () => {
+  it('is the population standard deviation of the window', () => {
+    expectSeries(rollingStd([2, 4, 4, 4, 5, 5, 7, 9], 8), [NaN, NaN, NaN, NaN, NaN, NaN, NaN, 2]);
+    expectSeries(rollingStd([1, 2, 3], 3), [NaN, NaN, Math.sqrt(2 / 3)]);
+  });
+});
+
+describe('zScore', () => {
+  it('measures the distance from the mean in standard deviations', () => {
+    expectSeries(zScore([1, 2, 3], 3), [NaN, NaN, 1 / Math.sqrt(2 / 3)]);
+  });
+
+  it('is 0 rather than a division by zero on flat prices', () => {
+    expectSeries(zScore([5, 5, 5, 5], 3), [NaN, NaN, 0, 0]);
+  });
+});
+
+describe('returns', () => {
+  it('computes simple and log returns over the period', () => {
+    expectSeries(returns([100, 110, 121], 1), [NaN, 0.1, 0.1]);
+    expectSeries(returns([100, 110, 121], 2), [NaN, NaN, 0.21]);
+    expectSeries(logReturns([100, 110, 121], 1), [NaN, Math.log(1.1), Math.log(1.1)]);
+  });
+});
+
+describe('rsi', () => {
+  it('uses Wilder smoothing', () => {
+    // Changes +1 +1 -1 +1 +1 with period 2: average gain/loss 1/0, 0.5/0.5, 0.75/0.25, 0.875/0.125
+    expectSeries(rsi([1, 2, 3, 2, 3, 4], 2), [NaN, NaN, 100, 50, 75, 87.5]);
+  });
+
+  it('stays within 0–100 on flat prices instead of dividing by zero', () => {
+    const values = rsi([10, 10, 10, 10, 10], 2);
+    expect(values.slice(2).every(value => value >= 0 && value <= 100)).toBe(true);
+  });
+
+  it('is all warm-up when the series is not longer than the period', () => {
+    expectSeries(rsi([1, 2, 3], 3), [NaN, NaN, NaN]);
+  });
+});
+
+describe('macd', () => {
+  it('subtracts the slow EMA from the fast one and smooths it into a signal', () => {
+    // EMA(2) runs 0.5 above EMA(3) on a straight line, so the histogram is flat at 0
+    const { macd: line, signal, histogram } = macd([1, 2, 3, 4, 5, 6], 2, 3, 2);
+    expectSeries(line, [NaN, NaN, 0.5, 0.5, 0.5, 0.5]);
+    expectSeries(signal, [NaN, NaN, NaN, 0.5, 0.5, 0.5]);
+    expectSeries(histogram, [NaN, NaN, NaN, 0, 0, 0]);
+  });
+
+  it('is all warm-up when the series is shorter than the slow period', () => {
+    expect(macd([1, 2, 3, 4, 5], 12, 26, 9).histogram.every(isNaN)).toBe(true);
+  });
+});
+
+describe('bollinger', () => {
+  it('places bands the multiplier of standard deviations around the SMA', () => {
+    const std = Math.sqrt(2 / 3);
+    const bands = bollinger([1, 2, 3], 3, 2);
+    expectSeries(bands.middle, [NaN, NaN, 2]);
+    expectSeries(bands.upper, [NaN, NaN, 2 + 2 * std]);
+    expectSeries(bands.lower, [NaN, NaN, 2 - 2 * std]);
+    expectSeries(bands.percentB, [NaN, NaN, (1 + 2 * std) / (4 * std)]);
+  });
+
+  it('puts flat prices in the middle of collapsed bands', () => {
+    expectSeries(bollinger([5, 5, 5, 5], 3, 2).percentB, [NaN, NaN, 0.5, 0.5]);
+  });
+});
+
+describe('atr', () => {
+  it('averages true ranges, including gaps from the previous close', () => {
+    const candles = [
+      candle(9, { high: 10, low: 8 }),
+      candle(10, { high: 11, low: 9 }),
+      // Gap up: the true range reaches back to the previous close of 10
+      candle(13.5, { high: 14, low: 13 })
+    ];
+    expectSeries(atr(candles, 2), [NaN, 2, 3]);
+  });
+
+  it('is all warm-up when the series is shorter than the period', () => {
+    expectSeries(atr([candle(10), candle(11)], 3), [NaN, NaN]);
+  });
+});
+
+describe('obv', () => {
+  it('adds volume on up closes and subtracts it on down closes', () => {
+    const candles = [10, 11, 11, 9].map((close, i) => candle(close, { volume: (i + 1) * 100 }));
+    expectSeries(obv(candles), [0, 200, 200, -200]);
+  });
+
+  it('stays at 0 without volume, and its z-score does not divide by zero', () => {
+    const candles = [10, 11, 9, 12, 8].map(close => candle(close, { volume: 0 }));
+    expectSeries(obv(candles), [0, 0, 0, 0, 0]);
+    expectSeries(zScore(obv(candles), 3), [NaN, NaN, 0, 0, 0]);
+  });
+});
+
+describe('warm-up alignment', () => {
+  // Each indicator's first value lands where featureWarmup says the feature starts
+  const cases: [FeatureSpec, number[]][] = [
+    [{ kind: 'return', period: 5 }, logReturns(wave, 5)],
+    [{ kind: 'sma-ratio', period: 20 }, sma(wave, 20)],
+    [{ kind: 'ema-ratio', period: 10 }, ema(wave, 10)],
+    [{ kind: 'rsi', period: 14 }, rsi(wave, 14)],
+    [{ kind: 'macd-histogram', fast: 12, slow: 26, signal: 9 }, macd(wave, 12, 26, 9).histogram],
+    [{ kind: 'bollinger-b', period: 20, multiplier: 2 }, bollinger(wave, 20, 2).percentB],
+    [{ kind: 'atr-ratio', period: 14 }, atr(waveCandles, 14)],
+    [{ kind: 'obv-zscore', period: 20 }, zScore(obv(waveCandles), 20)],
+    [{ kind: 'zscore', period: 20 }, zScore(wave, 20)]
+  ];
+
+  it.each(cases)('%o starts at its featureWarmup', (spec, values) => {
+    expect(values).toHaveLength(wave.length);
+    expect(firstValid(values)).toBe(featureWarmup(spec));
+    expect(values.slice(featureWarmup(spec)).every(value => !isNaN(value))).toBe(true);
+  });
+});
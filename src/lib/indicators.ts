@@ -0,0 +1,170 @@
+import { Candle } from './market-data';
+
+// Technical indicators over a chronologically sorted series. Every function returns
+// an array aligned with its input; bars inside the warm-up period are NaN.
+
+const warmup = (length: number): number[] => Array(length).fill(NaN);
+
+// Simple moving average over `period` bars
+export const sma = (values: number[], period: number): number[] => {
+  const result = warmup(values.length);
+  let sum = 0;
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    if (i >= period - 1) {
+      result[i] = sum / period;
+    }
+  });
+  return result;
+};
+
+// Exponential moving average, seeded with the SMA of the first `period` bars
+export const ema = (values: number[], period: number): number[] => {
+  const result = warmup(values.length);
+  if (values.length < period) {
+    return result;
+  }
+  const alpha = 2 / (period + 1);
+  let current = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = current;
+  for (let i = period; i < values.length; i++) {
+    current = alpha * values[i] + (1 - alpha) * current;
+    result[i] = current;
+  }
+  return result;
+};
+
+// Population standard deviation over `period` bars
+export const rollingStd = (values: number[], period: number): number[] => {
+  const means = sma(values, period);
+  return values.map((_, i) => {
+    if (i < period - 1) {
+      return NaN;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((sum, value) => sum + (value - means[i]) ** 2, 0) / period);
+  });
+};
+
+// Distance from the rolling mean in rolling standard deviations
+export const zScore = (values: number[], period: number): number[] => {
+  const means = sma(values, period);
+  const deviations = rollingStd(values, period);
+  return values.map((value, i) => (deviations[i] > 0 ? (value - means[i]) / deviations[i] : i >= period - 1 ? 0 : NaN));
+};
+
+// Simple return over `period` bars: value[i] / value[i - period] - 1
+export const returns = (values: number[], period = 1): number[] =>
+  values.map((value, i) => (i >= period ? value / values[i - period] - 1 : NaN));
+
+// Log return over `period` bars
+export const logReturns = (values: number[], period = 1): number[] =>
+  values.map((value, i) => (i >= period ? Math.log(value / values[i - period]) : NaN));
+
+// Wilder's relative strength index, 0–100
+export const rsi = (closes: number[], period = 14): number[] => {
+  const result = warmup(closes.length);
+  if (closes.length <= period) {
+    return result;
+  }
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  const value = () => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  result[period] = value();
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = value();
+  }
+  return result;
+};
+
+export interface MacdSeries {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+}
+
+// MACD line (fast EMA - slow EMA), its signal EMA and the histogram between them
+export const macd = (closes: number[], fast = 12, slow = 26, signalPeriod = 9): MacdSeries => {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => fastEma[i] - slowEma[i]);
+
+  // The signal EMA starts once the MACD line has values
+  const firstValid = slow - 1;
+  const signal = warmup(closes.length);
+  ema(line.slice(firstValid), signalPeriod).forEach((value, i) => {
+    signal[firstValid + i] = value;
+  });
+
+  return { macd: line, signal, histogram: line.map((value, i) => value - signal[i]) };
+};
+
+export interface BollingerBands {
+  middle: number[];
+  upper: number[];
+  lower: number[];
+  // Position within the bands: 0 at the lower band, 1 at the upper
+  percentB: number[];
+}
+
+export const bollinger = (closes: number[], period = 20, multiplier = 2): BollingerBands => {
+  const middle = sma(closes, period);
+  const deviations = rollingStd(closes, period);
+  const upper = middle.map((value, i) => value + multiplier * deviations[i]);
+  const lower = middle.map((value, i) => value - multiplier * deviations[i]);
+  const percentB = closes.map((close, i) =>
+    upper[i] > lower[i] ? (close - lower[i]) / (upper[i] - lower[i]) : i >= period - 1 ? 0.5 : NaN
+  );
+  return { middle, upper, lower, percentB };
+};
+
+// Wilder's average true range
+export const atr = (candles: Candle[], period = 14): number[] => {
+  const result = warmup(candles.length);
+  const trueRanges = candles.map((candle, i) =>
+    i === 0
+      ? candle.high - candle.low
+      : Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - candles[i - 1].close),
+          Math.abs(candle.low - candles[i - 1].close)
+        )
+  );
+  if (candles.length < period) {
+    return result;
+  }
+
+  let current = trueRanges.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = current;
+  for (let i = period; i < candles.length; i++) {
+    current = (current * (period - 1) + trueRanges[i]) / period;
+    result[i] = current;
+  }
+  return result;
+};
+
+// On-balance volume: running total of volume signed by the close-to-close direction
+export const obv = (candles: Candle[]): number[] => {
+  let total = 0;
+  return candles.map((candle, i) => {
+    if (i > 0) {
+      total += Math.sign(candle.close - candles[i - 1].close) * candle.volume;
+    }
+    return total;
+  });
+};
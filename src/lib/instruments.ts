@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseCsvRecords } from './csv';
+import { Exchange } from './market-data';
+
+// One listed equity from the instrument master
+export interface Instrument {
+  // NSE ticker, also used to request BSE data
+  symbol: string;
+  name: string;
+  isin: string;
+  // BSE scrip code; null when the company is not listed on BSE
+  bseCode: string | null;
+  sector: string;
+  exchanges: Exchange[];
+}
+
+export interface InstrumentMatch extends Instrument {
+  score: number;
+}
+
+// Bundled NSE/BSE equity list; INSTRUMENTS_FILE points at a fuller export
+const instrumentsFile = () => process.env.INSTRUMENTS_FILE || path.join(process.cwd(), 'data', 'instruments.csv');
+
+const toInstrument = (record: Record<string, string>): Instrument | null => {
+  const symbol = (record.SYMBOL ?? '').toUpperCase();
+  if (!symbol) {
+    return null;
+  }
+  const bseCode = record.BSE_CODE || null;
+  return {
+    symbol,
+    name: record.NAME || symbol,
+    isin: (record.ISIN ?? '').toUpperCase(),
+    bseCode,
+    sector: record.SECTOR ?? '',
+    exchanges: bseCode ? ['NSE', 'BSE'] : ['NSE']
+  };
+};
+
+let instruments: Promise<Instrument[]> | null = null;
+
+// The instrument master, read once per process. A missing or unreadable file yields an
+// empty list, so search and suggestions degrade to nothing rather than failing requests.
+export const loadInstruments = (): Promise<Instrument[]> => {
+  if (!instruments) {
+    instruments = fs.readFile(instrumentsFile(), 'utf8')
+      .then(text => parseCsvRecords(text).map(toInstrument).filter((item): item is Instrument => item !== null))
+      .catch(error => {
+        console.warn('Could not load the instrument master:', error);
+        return [];
+      });
+  }
+  return instruments;
+};
+
+// Levenshtein distance between two strings
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos tolerated for a query of this length
+const maxTypos = (query: string): number => (query.length <= 3 ? 0 : query.length <= 6 ? 1 : 2);
+
+const nameWords = (name: string): string[] => name.toUpperCase().split(/[^A-Z0-9&]+/).filter(Boolean);
+
+// How well an instrument matches a query, 0 for no match. Exact identifiers rank first,
+// then ticker and name prefixes, substrings, and finally tickers or name words within
+// a few typos.
+const matchScore = (instrument: Instrument, query: string): number => {
+  const { symbol, isin, bseCode } = instrument;
+  const name = instrument.name.toUpperCase();
+  if (symbol === query || isin === query || bseCode === query) {
+    return 100;
+  }
+  if (symbol.startsWith(query)) {
+    return 90 - Math.min(20, symbol.length - query.length);
+  }
+  if (nameWords(name).some(word => word.startsWith(query))) {
+    return 70;
+  }
+  if (symbol.includes(query) || name.includes(query)) {
+    return 50;
+  }
+
+  const typos = maxTypos(query);
+  const distance = Math.min(
+    editDistance(query, symbol),
+    ...nameWords(name).map(word => editDistance(query, word.slice(0, query.length + typos)))
+  );
+  return typos > 0 && distance <= typos ? 40 - distance * 10 : 0;
+};
+
+// Fuzzy search over ticker, company name, ISIN and BSE scrip code, best matches first
+export const searchInstruments = (
+  list: Instrument[],
+  rawQuery: string,
+  { exchange, limit = 10 }: { exchange?: Exchange; limit?: number } = {}
+): InstrumentMatch[] => {
+  const query = rawQuery.trim().toUpperCase();
+  if (!query) {
+    return [];
+  }
+  return list
+    .filter(instrument => !exchange || instrument.exchanges.includes(exchange))
+    .map(instrument => ({ ...instrument, score: matchScore(instrument, query) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.symbol.localeCompare(b.symbol))
+    .slice(0, limit);
+};
+
+export const findInstrument = (list: Instrument[], symbol: string): Instrument | undefined =>
+  list.find(instrument => instrument.symbol === symbol.toUpperCase());
+
+// "Did you mean" tickers for an unknown symbol: the closest tickers by edit distance,
+// within roughly a third of the symbol's length
+export const suggestSymbols = (list: Instrument[], symbol: string, limit = 5): string[] => {
+  const query = symbol.toUpperCase();
+  const threshold = Math.max(1, Math.ceil(query.length / 3));
+  return list
+    .map(instrument => ({ symbol: instrument.symbol, distance: editDistance(query, instrument.symbol) }))
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.symbol.localeCompare(b.symbol))
+    .slice(0, limit)
+    .map(({ symbol: suggestion }) => suggestion);
+};
+
+// "Did you mean" list for a symbol that returned no data; empty for known instruments,
+// whose failures lie with the data providers rather than the ticker
+export const symbolSuggestions = async (symbol: string): Promise<string[]> => {
+  const list = await loadInstruments();
+  return findInstrument(list, symbol) ? [] : suggestSymbols(list, symbol);
+};
+
+// Error message for a symbol without data, naming the suggestions if there are any
+export const unknownSymbolMessage = (symbol: string, suggestions: string[]): string => {
+  const base = `Unable to fetch stock data for ${symbol}. Please verify the symbol is correct.`;
+  return suggestions.length > 0 ? `${base} Did you mean ${suggestions.join(', ')}?` : base;
+};
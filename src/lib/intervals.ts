@@ -0,0 +1,67 @@
+// Central prediction interval for each forecast step
+export interface PredictionInterval {
+  level: number;
+  lower: number[];
+  upper: number[];
+}
+
+export const INTERVAL_LEVELS = [0.8, 0.95];
+export const DEFAULT_PATH_SAMPLES = 500;
+
+// Linear-interpolated quantile of an ascending sorted array
+export const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// One-step relative errors (actual - predicted) / predicted, skipping unusable points
+export const relativeResiduals = (actual: number[], predicted: number[]): number[] =>
+  actual
+    .map((value, i) => (value - predicted[i]) / predicted[i])
+    .filter(residual => isFinite(residual));
+
+// Perturb each simulated path with bootstrapped one-step residuals. Errors compound
+// multiplicatively, so the spread widens with the horizon as it does in practice.
+export const bootstrapPaths = (
+  basePaths: number[][],
+  residuals: number[],
+  random: () => number = Math.random
+): number[][] => {
+  if (residuals.length === 0) {
+    return basePaths;
+  }
+
+  return basePaths.map(path => {
+    let cumulative = 1;
+    return path.map(price => {
+      cumulative *= 1 + residuals[Math.floor(random() * residuals.length)];
+      return price * cumulative;
+    });
+  });
+};
+
+// Repeat a point forecast so it can be bootstrapped
+export const replicatePath = (forecast: number[], samples = DEFAULT_PATH_SAMPLES): number[][] =>
+  Array.from({ length: samples }, () => [...forecast]);
+
+// Per-step central intervals from simulated paths (samples x steps)
+export const intervalsFromPaths = (paths: number[][], levels: number[] = INTERVAL_LEVELS): PredictionInterval[] => {
+  const steps = paths[0]?.length ?? 0;
+  const columns = Array.from({ length: steps }, (_, step) =>
+    paths.map(path => path[step]).filter(value => isFinite(value)).sort((a, b) => a - b)
+  );
+
+  return levels.map(level => {
+    const tail = (1 - level) / 2;
+    return {
+      level,
+      lower: columns.map(column => parseFloat(quantile(column, tail).toFixed(2))),
+      upper: columns.map(column => parseFloat(quantile(column, 1 - tail).toFixed(2)))
+    };
+  });
+};
@@ -0,0 +1,153 @@
+// Daily (or intraday) OHLCV bar as returned by /api/stock
+export interface Candle {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  adjClose: number;
+  volume: number;
+}
+
+// History ranges accepted by /api/stock, shortest first
+export const HISTORY_RANGES = ['1mo', '3mo', '6mo', 'ytd', '1y', '2y', '5y', '10y', 'max'] as const;
+export type HistoryRange = typeof HISTORY_RANGES[number];
+
+// Bar intervals accepted by /api/stock
+export const BAR_INTERVALS = ['5m', '15m', '1h', '1d', '1wk', '1mo'] as const;
+export type BarInterval = typeof BAR_INTERVALS[number];
+
+export const DEFAULT_RANGE: HistoryRange = '1y';
+export const DEFAULT_INTERVAL: BarInterval = '1d';
+
+export const RANGE_LABELS: Record<HistoryRange, string> = {
+  '1mo': '1 Month',
+  '3mo': '3 Months',
+  '6mo': '6 Months',
+  'ytd': 'Year to Date',
+  '1y': '1 Year',
+  '2y': '2 Years',
+  '5y': '5 Years',
+  '10y': '10 Years',
+  'max': 'Max'
+};
+
+export const INTERVAL_LABELS: Record<BarInterval, string> = {
+  '5m': '5 Minutes',
+  '15m': '15 Minutes',
+  '1h': '1 Hour',
+  '1d': 'Daily',
+  '1wk': 'Weekly',
+  '1mo': 'Monthly'
+};
+
+// Ranges each interval supports. Intraday bars are capped by Yahoo's lookback
+// (60 days for 5m/15m, 730 days for 1h); coarse bars need a range long enough
+// to yield the 20+ candles the models require.
+export const ALLOWED_RANGES: Record<BarInterval, readonly HistoryRange[]> = {
+  '5m': ['1mo'],
+  '15m': ['1mo'],
+  '1h': ['1mo', '3mo', '6mo', 'ytd', '1y', '2y'],
+  '1d': ['3mo', '6mo', 'ytd', '1y', '2y', '5y', '10y', 'max'],
+  '1wk': ['6mo', '1y', '2y', '5y', '10y', 'max'],
+  '1mo': ['2y', '5y', '10y', 'max']
+};
+
+export const isIntraday = (interval: BarInterval): boolean =>
+  interval === '5m' || interval === '15m' || interval === '1h';
+
+export const isRangeAllowed = (range: HistoryRange, interval: BarInterval): boolean =>
+  ALLOWED_RANGES[interval].includes(range);
+
+// Validate raw range/interval query parameters, filling in defaults
+export const parseHistoryParams = (
+  rawRange: string | null,
+  rawInterval: string | null
+): { range: HistoryRange; interval: BarInterval } | { error: string } => {
+  const range = (rawRange || DEFAULT_RANGE) as HistoryRange;
+  const interval = (rawInterval || DEFAULT_INTERVAL) as BarInterval;
+  
+  if (!HISTORY_RANGES.includes(range)) {
+    return { error: `Invalid range "${rawRange}". Expected one of: ${HISTORY_RANGES.join(', ')}` };
+  }
+  if (!BAR_INTERVALS.includes(interval)) {
+    return { error: `Invalid interval "${rawInterval}". Expected one of: ${BAR_INTERVALS.join(', ')}` };
+  }
+  if (!isRangeAllowed(range, interval)) {
+    return { error: `Range "${range}" is not supported for interval "${interval}". Allowed ranges: ${ALLOWED_RANGES[interval].join(', ')}` };
+  }
+  
+  return { range, interval };
+};
+
+export type Exchange = 'NSE' | 'BSE';
+
+// Approximate calendar span of each range, used to trim locally sourced series
+export const RANGE_DAYS: Record<HistoryRange, number> = {
+  '1mo': 31,
+  '3mo': 92,
+  '6mo': 183,
+  'ytd': 366,
+  '1y': 366,
+  '2y': 731,
+  '5y': 1827,
+  '10y': 3653,
+  'max': Number.POSITIVE_INFINITY
+};
+
+// Keep only the candles that fall inside range, measured back from the last bar
+export const sliceToRange = (candles: Candle[], range: HistoryRange): Candle[] => {
+  if (candles.length === 0 || range === 'max') {
+    return candles;
+  }
+  
+  const last = new Date(candles[candles.length - 1].date);
+  const cutoff = range === 'ytd'
+    ? new Date(Date.UTC(last.getUTCFullYear(), 0, 1))
+    : new Date(last.getTime() - RANGE_DAYS[range] * 24 * 60 * 60 * 1000);
+  
+  return candles.filter(candle => new Date(candle.date) >= cutoff);
+};
+
+// Aggregate daily candles into weekly or monthly bars
+export const resampleCandles = (candles: Candle[], interval: BarInterval): Candle[] => {
+  if (interval !== '1wk' && interval !== '1mo') {
+    return candles;
+  }
+  
+  const bucketKey = (date: string): string => {
+    const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+    if (interval === '1mo') {
+      return date.slice(0, 7);
+    }
+    // Weeks start on Monday
+    const offset = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - offset);
+    return day.toISOString().split('T')[0];
+  };
+  
+  const buckets = new Map<string, Candle[]>();
+  for (const candle of candles) {
+    const key = bucketKey(candle.date);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(candle);
+    } else {
+      buckets.set(key, [candle]);
+    }
+  }
+  
+  return Array.from(buckets.values()).map(bucket => {
+    const first = bucket[0];
+    const last = bucket[bucket.length - 1];
+    return {
+      date: first.date,
+      open: first.open,
+      high: Math.max(...bucket.map(candle => candle.high)),
+      low: Math.min(...bucket.map(candle => candle.low)),
+      close: last.close,
+      adjClose: last.adjClose,
+      volume: bucket.reduce((sum, candle) => sum + candle.volume, 0)
+    };
+  });
+};
@@ -0,0 +1,41 @@
+import { Exchange } from './market-data';
+import { addDays, istDate, istInstant, istMinutes, REGULAR_SESSION, sessionOn } from './trading-calendar';
+
+// NSE/BSE cash session: 09:15–15:30 IST on trading days, per the trading calendar
+// (holidays closed, special sessions such as Muhurat trading open)
+
+// Sessions are never further apart than this, even over the longest holiday stretch
+const MAX_DAYS_TO_NEXT_SESSION = 14;
+
+// Whether a trading session is running at the given instant
+export const isMarketOpen = (now: Date = new Date(), exchange: Exchange = 'NSE'): boolean => {
+  const session = sessionOn(istDate(now), exchange);
+  const minutes = istMinutes(now);
+  return session !== null && minutes >= session.open && minutes < session.close;
+};
+
+// The next session open strictly after now
+export const nextSessionOpen = (now: Date = new Date(), exchange: Exchange = 'NSE'): Date => {
+  let day = istDate(now);
+  for (let i = 0; i <= MAX_DAYS_TO_NEXT_SESSION; i++, day = addDays(day, 1)) {
+    const session = sessionOn(day, exchange);
+    const open = session ? istInstant(day, session.open) : null;
+    if (open && open > now) {
+      return open;
+    }
+  }
+  return istInstant(day, REGULAR_SESSION.open);
+};
+
+// The most recent session close at or before now
+export const lastSessionClose = (now: Date = new Date(), exchange: Exchange = 'NSE'): Date => {
+  let day = istDate(now);
+  for (let i = 0; i <= MAX_DAYS_TO_NEXT_SESSION; i++, day = addDays(day, -1)) {
+    const session = sessionOn(day, exchange);
+    const close = session ? istInstant(day, session.close) : null;
+    if (close && close <= now) {
+      return close;
+    }
+  }
+  return istInstant(day, REGULAR_SESSION.close);
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_FEATURES, featureMatrix, maxWarmup } from './features';
+import { Candle } from './market-data';
+import {
+  NeuralHyperparameters,
+  TARGET_OFFSET,
+  VALIDATION_SHARE,
+  featureTail,
+  fineTuneModel,
+  supervisedPairs,
+  trainLinearRegressionModel
+} from './ml-utils';
+
+// A rising, wavy series, so the most recent (validation) rows differ from the early ones
+const candles: Candle[] = Array.from({ length: 160 }, (_, i) => {
+  const close = 100 + i + 8 * Math.sin(i / 4);
+  return {
+    date: `bar-${String(i).padStart(4, '0')}`,
+    open: close - 0.5,
+    high: close + 1,
+    low: close - 1,
+    close,
+    adjClose: close,
+    volume: 1000 + (i % 9) * 250
+  };
+});
+
+// One quick epoch of a tiny network
+const QUICK: NeuralHyperparameters = {
+  layers: [4],
+  dropout: 0,
+  l2: 0,
+  learningRate: 0.01,
+  initialEpochs: 1,
+  finetuneLearningRate: 0.001,
+  finetuneEpochs: 0,
+  batchSize: 32
+};
+
+const columnMeans = (rows: number[][]): number[] =>
+  rows[0].map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / rows.length);
+
+describe('supervisedPairs', () => {
+  const pairs = supervisedPairs(candles, DEFAULT_FEATURES);
+
+  it('targets a bar strictly after the origin whose features it carries', () => {
+    const matrix = featureMatrix(candles, DEFAULT_FEATURES);
+    expect(pairs.length).toBeGreaterThan(0);
+    for (const { origin, target, row } of pairs) {
+      expect(target).toBeGreaterThan(origin);
+      expect(target).toBe(origin + TARGET_OFFSET);
+      expect(target).toBeLessThan(candles.length);
+      expect(row).toEqual(matrix[origin]);
+    }
+  });
+
+  it('starts after the longest warm-up and keeps only complete rows', () => {
+    expect(pairs[0].origin).toBe(maxWarmup(DEFAULT_FEATURES));
+    expect(pairs[pairs.length - 1].origin).toBe(candles.length - 1 - TARGET_OFFSET);
+    expect(pairs.every(({ row }) => row.every(value => isFinite(value)))).toBe(true);
+  });
+});
+
+describe('trainLinearRegressionModel', () => {
+  it('fits the feature scaling on the training fold only', async () => {
+    const bundle = await trainLinearRegressionModel(candles, { hyperparameters: QUICK });
+    bundle.model.dispose();
+
+    const rows = supervisedPairs(candles, DEFAULT_FEATURES).map(({ row }) => row);
+    const splitIndex = Math.floor(rows.length * (1 - VALIDATION_SHARE));
+    const trainMeans = columnMeans(rows.slice(0, splitIndex));
+    const allMeans = columnMeans(rows);
+
+    bundle.featureScaling.mean.forEach((mean, j) => expect(mean).toBeCloseTo(trainMeans[j], 9));
+    // The held-out rows would have moved the means had they been included
+    expect(allMeans.some((mean, j) => Math.abs(mean - trainMeans[j]) > 1e-6)).toBe(true);
+  });
+});
+
+describe('fineTuneModel', () => {
+  it('trains on the pairs targeting new bars plus a short replay tail', async () => {
+    const seenIndex = 149;
+    const bundle = await trainLinearRegressionModel(candles.slice(0, seenIndex + 1), { hyperparameters: QUICK });
+    const fit = vi.spyOn(bundle.model, 'fit');
+
+    const updated = await fineTuneModel(bundle, candles, seenIndex, {}, 1);
+    updated.model.dispose();
+
+    const [xs] = fit.mock.calls[0];
+    const newPairs = supervisedPairs(candles, DEFAULT_FEATURES).filter(({ target }) => target > seenIndex);
+    expect(newPairs).toHaveLength(candles.length - 1 - seenIndex);
+    // 10 new pairs and 32 replayed ones, far fewer than the whole window
+    expect((xs as { shape: number[] }).shape[0]).toBe(newPairs.length + 32);
+  });
+});
+
+describe('featureTail', () => {
+  it('gives prediction rows the features training computed for the same bar', () => {
+    const long: Candle[] = Array.from({ length: 600 }, (_, i) => {
+      const close = 100 + 20 * Math.sin(i / 11) + 5 * Math.sin(i / 3) + i * 0.05;
+      return { ...candles[0], date: `bar-${String(i).padStart(4, '0')}`, open: close - 0.5, high: close + 1, low: close - 1, close, adjClose: close };
+    });
+    const full = featureMatrix(long, DEFAULT_FEATURES);
+    const tail = featureMatrix(long.slice(-featureTail({ features: DEFAULT_FEATURES })), DEFAULT_FEATURES);
+    tail[tail.length - 1].forEach((value, j) => expect(value).toBeCloseTo(full[full.length - 1][j], 4));
+  });
+});
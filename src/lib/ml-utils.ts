@@ -1,4 +1,14 @@
 import * as tf from '@tensorflow/tfjs';
+import { Candle } from './market-data';
+import {
+  DEFAULT_FEATURES,
+  FEATURE_VERSION,
+  FeatureSpec,
+  featureMatrix,
+  featureMemory,
+  findLookAheadFeatures,
+  maxWarmup
+} from './features';
 
 export interface StockData {
   dates: string[];
@@ -8,23 +18,122 @@ export interface StockData {
 
 export interface PredictionResult {
   nextPrice: number;
-  model: tf.Sequential;
+  model: ModelBundle;
   r2Score: number;
   mse: number;
 }
 
-// Process raw stock data for ML
-export function processStockData(data: { 'Time Series (Daily)': Record<string, { '4. close': string }> }): { prices: number[], dates: string[], xs: number[] } {
-  const timeSeries = data['Time Series (Daily)'];
-  if (!timeSeries) {
+export interface TrainingProgress {
+  // 'train' is a single-phase run; the MLP trains in an initial and a finetune phase
+  phase: 'initial' | 'finetune' | 'train';
+  epoch: number;
+  totalEpochs: number;
+  loss: number;
+  valLoss?: number;
+}
+
+export interface TrainingOptions {
+  onEpochEnd?: (progress: TrainingProgress) => void;
+  // Polled between batches; returning true stops training
+  shouldStop?: () => boolean;
+  // Inputs for the network; defaults to DEFAULT_FEATURES
+  features?: FeatureSpec[];
+  // What the network predicts; defaults to DEFAULT_TARGET_MODE
+  targetMode?: TargetMode;
+  // Architecture and optimizer settings; defaults to DEFAULT_HYPERPARAMETERS
+  hyperparameters?: NeuralHyperparameters;
+}
+
+// 'log-return' and 'percent-change' predict the move from the origin close through a
+// linear head, so forecasts can leave the training range; 'level' predicts the min/max
+// scaled close through a sigmoid and is kept for comparison
+export type TargetMode = 'log-return' | 'percent-change' | 'level';
+
+export const DEFAULT_TARGET_MODE: TargetMode = 'log-return';
+
+// Settings of the MLP and its two training phases; the tuner searches over these
+export interface NeuralHyperparameters {
+  // Units per hidden layer
+  layers: number[];
+  // Dropout rate and L2 penalty after/on every hidden layer but the last
+  dropout: number;
+  l2: number;
+  learningRate: number;
+  initialEpochs: number;
+  // The second phase retrains at a lower rate in small batches; 0 epochs skips it
+  finetuneLearningRate: number;
+  finetuneEpochs: number;
+  batchSize: number;
+}
+
+export const DEFAULT_HYPERPARAMETERS: NeuralHyperparameters = {
+  layers: [64, 32, 16],
+  dropout: 0.3,
+  l2: 0.001,
+  learningRate: 0.0005,
+  initialEpochs: 100,
+  finetuneLearningRate: 0.0001,
+  finetuneEpochs: 100,
+  batchSize: 32
+};
+
+export class TrainingCancelledError extends Error {
+  constructor() {
+    super('Training cancelled');
+    this.name = 'TrainingCancelledError';
+  }
+}
+
+// Affine scaling of the network target, fitted on the training fold: min/max for price
+// levels, mean/std for returns. The network sees (target - offset) / scale.
+export interface TargetScaling {
+  offset: number;
+  scale: number;
+}
+
+// Per-feature standardization fitted on the training rows
+export interface FeatureScaling {
+  mean: number[];
+  std: number[];
+}
+
+export interface TrainingMetadata {
+  trainedAt: string;
+  updatedAt: string;
+  // Date of the last bar the model has been trained on
+  lastDate: string | null;
+  samples: number;
+  epochs: number;
+  fineTunes: number;
+}
+
+// Everything needed to predict with (or keep training) a model after it is reloaded
+export interface ModelBundle {
+  model: tf.LayersModel;
+  features: FeatureSpec[];
+  // FEATURE_VERSION the features were computed with
+  featureVersion: number;
+  featureScaling: FeatureScaling;
+  targetMode: TargetMode;
+  targetScaling: TargetScaling;
+  hyperparameters: NeuralHyperparameters;
+  trainingCandles: Candle[];
+  metadata: TrainingMetadata;
+}
+
+// Process raw OHLCV candles for ML
+export function processStockData(candles: Candle[]): { prices: number[], dates: string[], xs: number[], candles: Candle[] } {
+  if (!Array.isArray(candles)) {
     throw new Error('Invalid stock data format');
   }
   
-  const dates = Object.keys(timeSeries).sort(); // Sort dates chronologically
-  const prices = dates.map(date => {
-    const price = parseFloat(timeSeries[date]['4. close']);
+  // Sort candles chronologically
+  const sorted = [...candles].sort((a, b) => a.date.localeCompare(b.date));
+  const dates = sorted.map(candle => candle.date);
+  const prices = sorted.map(candle => {
+    const price = Number(candle.close);
     if (isNaN(price)) {
-      throw new Error(`Invalid price data for date ${date}: ${timeSeries[date]['4. close']}`);
+      throw new Error(`Invalid price data for date ${candle.date}: ${candle.close}`);
     }
     return price;
   });
@@ -34,172 +143,414 @@ export function processStockData(data: { 'Time Series (Daily)': Record<string, {
     throw new Error('No valid price data found');
   }
   
-  // Check for any NaN values
-  const hasNaN = prices.some(price => isNaN(price));
+  // Check for any NaN values in the rest of the bar
+  const hasNaN = sorted.some(candle =>
+    [candle.open, candle.high, candle.low, candle.adjClose, candle.volume].some(value => isNaN(Number(value)))
+  );
   if (hasNaN) {
     throw new Error('Price data contains invalid values');
   }
   
   const xs = dates.map((_, i) => i); // Day indices starting from 0
   
-  return { dates, prices, xs };
+  return { dates, prices, xs, candles: sorted };
 };
 
-// Train enhanced regression model with advanced features
-export const trainLinearRegressionModel = async (xs: number[], ys: number[]): Promise<tf.Sequential> => {
-  // Normalize the data for better training
-  const xMin = Math.min(...xs);
-  const xMax = Math.max(...xs);
-  const yMin = Math.min(...ys);
-  const yMax = Math.max(...ys);
-  
+// Report per-epoch losses and stop between batches once the caller cancels
+export const trainingCallbacks = (
+  model: tf.LayersModel,
+  options: TrainingOptions,
+  phase: TrainingProgress['phase'],
+  totalEpochs: number
+) => ({
+  onBatchEnd: async () => {
+    if (options.shouldStop?.()) {
+      model.stopTraining = true;
+    }
+  },
+  onEpochEnd: async (epoch: number, logs?: tf.Logs) => {
+    options.onEpochEnd?.({
+      phase,
+      epoch: epoch + 1,
+      totalEpochs,
+      loss: logs?.loss ?? NaN,
+      valLoss: logs?.val_loss
+    });
+    if (options.shouldStop?.()) {
+      model.stopTraining = true;
+    }
+  }
+});
 
-  
-  // Create advanced features for better pattern recognition
-  const createAdvancedFeatures = (x: number, prices: number[], index: number) => {
-    const xNorm = (x - xMin) / (xMax - xMin);
-    
-    // Moving averages (if enough data)
-    const ma3 = index >= 2 ? (prices[index] + prices[index-1] + prices[index-2]) / 3 : prices[index];
-    const ma5 = index >= 4 ? prices.slice(Math.max(0, index-4), index+1).reduce((a, b) => a + b, 0) / Math.min(5, index+1) : prices[index];
-    
-    // Price momentum
-    const momentum = index > 0 ? prices[index] - prices[index-1] : 0;
-    const volatility = index >= 5 ? Math.sqrt(prices.slice(Math.max(0, index-4), index+1).reduce((sum, p) => sum + Math.pow(p - ma5, 2), 0) / Math.min(5, index+1)) : 0;
-    
-    return [
-      xNorm,                           // Normalized time index
-      xNorm * xNorm,                   // Quadratic term
-      Math.sin(xNorm * 2 * Math.PI),   // Seasonal pattern 1
-      Math.cos(xNorm * 2 * Math.PI),   // Seasonal pattern 2
-      Math.sin(xNorm * 4 * Math.PI),   // Higher frequency pattern
-      (ma3 - yMin) / (yMax - yMin),    // 3-day MA (normalized)
-      (ma5 - yMin) / (yMax - yMin),    // 5-day MA (normalized)
-      momentum / (yMax - yMin),        // Price momentum (normalized)
-      volatility / (yMax - yMin)       // Volatility (normalized)
-    ];
+// Standardize a feature row; constant features map to 0
+const scaleRow = (row: number[], scaling: FeatureScaling): number[] =>
+  row.map((value, j) => (value - scaling.mean[j]) / scaling.std[j]);
+
+const fitFeatureScaling = (rows: number[][]): FeatureScaling => {
+  const columns = rows[0].map((_, j) => rows.map(row => row[j]));
+  const mean = columns.map(column => column.reduce((sum, value) => sum + value, 0) / column.length);
+  const std = columns.map((column, j) =>
+    Math.sqrt(column.reduce((sum, value) => sum + (value - mean[j]) ** 2, 0) / column.length) || 1
+  );
+  return { mean, std };
+};
+
+// Unscaled target for the close at `target` seen from the close at `origin`
+const rawTarget = (mode: TargetMode, originClose: number, targetClose: number): number => {
+  switch (mode) {
+    case 'level':
+      return targetClose;
+    case 'log-return':
+      return Math.log(targetClose / originClose);
+    case 'percent-change':
+      return targetClose / originClose - 1;
+  }
+};
+
+const fitTargetScaling = (mode: TargetMode, targets: number[]): TargetScaling => {
+  if (mode === 'level') {
+    const yMin = Math.min(...targets);
+    return { offset: yMin, scale: Math.max(...targets) - yMin || 1 };
+  }
+  const mean = targets.reduce((sum, value) => sum + value, 0) / targets.length;
+  const std = Math.sqrt(targets.reduce((sum, value) => sum + (value - mean) ** 2, 0) / targets.length);
+  return { offset: mean, scale: std || 1 };
+};
+
+// Bars between a feature row and the close it predicts. The recursive forecast steps
+// one bar at a time, so the network is trained for t+1.
+export const TARGET_OFFSET = 1;
+
+// Share of the (most recent) examples held out for validation
+export const VALIDATION_SHARE = 0.2;
+
+export interface SupervisedPair {
+  // Bar the features were computed at; they only read bars up to and including it
+  origin: number;
+  // Bar whose close is the target, origin + offset
+  target: number;
+  row: number[];
+}
+
+// Training examples: features known at the close of `origin` paired with the close
+// `offset` bars later, skipping the indicator warm-up and origins without a target
+export const supervisedPairs = (candles: Candle[], features: FeatureSpec[], offset = TARGET_OFFSET): SupervisedPair[] =>
+  featureMatrix(candles, features)
+    .map((row, origin) => ({ row, origin, target: origin + offset }))
+    .filter(({ row, target }) => target < candles.length && row.every(value => isFinite(value)));
+
+// Feature and target tensors for examples under fixed scaling
+const pairTensors = (
+  candles: Candle[],
+  pairs: SupervisedPair[],
+  bundle: Pick<ModelBundle, 'features' | 'featureScaling' | 'targetMode' | 'targetScaling'>
+) => {
+  const { offset, scale } = bundle.targetScaling;
+  const targets = pairs.map(({ origin, target }) =>
+    [(rawTarget(bundle.targetMode, candles[origin].close, candles[target].close) - offset) / scale]
+  );
+  return {
+    xsTensor: tf.tensor2d(pairs.map(({ row }) => scaleRow(row, bundle.featureScaling)), [pairs.length, bundle.features.length]),
+    ysTensor: tf.tensor2d(targets, [pairs.length, 1])
   };
+};
+
+// Candles needed for the network to have any training rows
+export const minTrainingCandles = (features: FeatureSpec[] = DEFAULT_FEATURES): number =>
+  maxWarmup(features) + TARGET_OFFSET + 20;
+
+// Train enhanced regression model on the technical indicator features
+export const trainLinearRegressionModel = async (candles: Candle[], options: TrainingOptions = {}): Promise<ModelBundle> => {
+  const features = options.features ?? DEFAULT_FEATURES;
+  const targetMode = options.targetMode ?? DEFAULT_TARGET_MODE;
+  const hyperparameters = options.hyperparameters ?? DEFAULT_HYPERPARAMETERS;
+  if (candles.length < minTrainingCandles(features)) {
+    throw new Error(`The neural model needs at least ${minTrainingCandles(features)} bars for its indicator features`);
+  }
   
-  // Create training data with advanced features
-  const xsFeatures = xs.map((x, i) => createAdvancedFeatures(x, ys, i));
-  const ysNorm = ys.map(y => (y - yMin) / (yMax - yMin));
-  
-  const model = tf.sequential();
-  
-  // More sophisticated architecture
-  model.add(tf.layers.dense({
-    inputShape: [9], // 9 advanced features
-    units: 64,
-    activation: 'relu',
-    kernelRegularizer: tf.regularizers.l2({ l2: 0.001 })
-  }));
-  
-  model.add(tf.layers.dropout({ rate: 0.3 }));
+  // Feature rows must never read bars after their origin; cheap to verify while developing
+  if (process.env.NODE_ENV !== 'production') {
+    const leaking = findLookAheadFeatures(candles, features);
+    if (leaking.length > 0) {
+      throw new Error(`Features read future bars: ${leaking.join(', ')}`);
+    }
+  }
   
-  model.add(tf.layers.dense({
-    units: 32,
-    activation: 'relu',
-    kernelRegularizer: tf.regularizers.l2({ l2: 0.001 })
-  }));
+  // Hold out the most recent examples, and fit every scaling on the training fold only
+  // so the validation loss is measured on data the model has not seen in any form
+  const pairs = supervisedPairs(candles, features);
+  const splitIndex = Math.max(1, Math.floor(pairs.length * (1 - VALIDATION_SHARE)));
+  const trainPairs = pairs.slice(0, splitIndex);
+  const validationPairs = pairs.slice(splitIndex);
   
-  model.add(tf.layers.dropout({ rate: 0.2 }));
+  // Normalize the data for better training
+  const targetScaling = fitTargetScaling(
+    targetMode,
+    trainPairs.map(({ origin, target }) => rawTarget(targetMode, candles[origin].close, candles[target].close))
+  );
+  const featureScaling = fitFeatureScaling(trainPairs.map(({ row }) => row));
   
-  model.add(tf.layers.dense({
-    units: 16,
-    activation: 'relu'
-  }));
+  const model = tf.sequential();
+  const { layers, dropout, l2 } = hyperparameters;
+  
+  // Regularize every hidden layer but the last, which feeds the output head directly
+  layers.forEach((units, i) => {
+    const regularized = i < layers.length - 1;
+    model.add(tf.layers.dense({
+      ...(i === 0 ? { inputShape: [features.length] } : {}), // One input per feature in the spec
+      units,
+      activation: 'relu',
+      kernelRegularizer: regularized && l2 > 0 ? tf.regularizers.l2({ l2 }) : undefined
+    }));
+    if (regularized && dropout > 0) {
+      model.add(tf.layers.dropout({ rate: dropout }));
+    }
+  });
   
+  // Returns are unbounded, so only the level target keeps a bounded sigmoid head
   model.add(tf.layers.dense({
     units: 1,
-    activation: 'sigmoid' // Use sigmoid for better bounded output
+    activation: targetMode === 'level' ? 'sigmoid' : 'linear'
   }));
   
   // Compile with adaptive learning rate
   model.compile({
-    optimizer: tf.train.adam(0.0005),
+    optimizer: tf.train.adam(hyperparameters.learningRate),
     loss: 'meanSquaredError',
     metrics: ['mse', 'mae']
   });
   
-  // Convert features to tensors
-  const xsTensor = tf.tensor2d(xsFeatures, [xsFeatures.length, 9]);
-  const ysTensor = tf.tensor2d(ysNorm, [ysNorm.length, 1]);
+  // Create training data from the indicator features
+  const scaling = { features, featureScaling, targetMode, targetScaling };
+  const { xsTensor, ysTensor } = pairTensors(candles, trainPairs, scaling);
+  const validation = validationPairs.length > 0 ? pairTensors(candles, validationPairs, scaling) : null;
+  const validationData: [tf.Tensor, tf.Tensor] | undefined = validation ? [validation.xsTensor, validation.ysTensor] : undefined;
   
   try {
     // Progressive training strategy
-    const initialEpochs = 200;
-    const finetuneEpochs = 100;
+    const { initialEpochs, finetuneEpochs } = hyperparameters;
     
     // Initial training with higher learning rate
-  const history = await model.fit(xsTensor, ysTensor, {
-    epochs: 100,
-    batchSize: 32,
-    validationSplit: 0.2,
-    callbacks: {
-      onEpochEnd: (epoch: number) => {
-        // Training progress callback
+    await model.fit(xsTensor, ysTensor, {
+      epochs: initialEpochs,
+      batchSize: hyperparameters.batchSize,
+      validationData,
+      callbacks: trainingCallbacks(model, options, 'initial', initialEpochs)
+    });
+    
+    if (options.shouldStop?.()) {
+      throw new TrainingCancelledError();
+    }
+    
+    // Fine-tuning with lower learning rate
+    if (finetuneEpochs > 0) {
+      model.compile({
+        optimizer: tf.train.adam(hyperparameters.finetuneLearningRate), // Lower learning rate
+        loss: 'meanSquaredError',
+        metrics: ['mse', 'mae']
+      });
+      
+      // Small batches, but at least one example even on short series
+      await model.fit(xsTensor, ysTensor, {
+        epochs: finetuneEpochs,
+        batchSize: Math.max(1, Math.min(4, Math.floor(trainPairs.length / 8))),
+        verbose: 0,
+        shuffle: true,
+        validationData,
+        callbacks: trainingCallbacks(model, options, 'finetune', finetuneEpochs)
+      });
+      
+      if (options.shouldStop?.()) {
+        throw new TrainingCancelledError();
       }
     }
-  });    // Fine-tuning with lower learning rate
-    model.compile({
-      optimizer: tf.train.adam(0.0001), // Lower learning rate
-      loss: 'meanSquaredError',
-      metrics: ['mse', 'mae']
-    });
     
-    const finetuneHistory = await model.fit(xsTensor, ysTensor, {
-      epochs: finetuneEpochs,
-      batchSize: Math.min(4, Math.floor(xs.length / 8)),
-      verbose: 0,
-      shuffle: true,
-      validationSplit: 0.2,
-      callbacks: {
-        onEpochEnd: (epoch, logs) => {
-          if (epoch % 20 === 0) {
-            // Fine-tuning progress tracking
-          }
-        }
+    const now = new Date().toISOString();
+    return {
+      model,
+      features,
+      featureVersion: FEATURE_VERSION,
+      featureScaling,
+      targetMode,
+      targetScaling,
+      hyperparameters,
+      trainingCandles: candles, // Store for feature calculation
+      metadata: {
+        trainedAt: now,
+        updatedAt: now,
+        lastDate: null,
+        samples: candles.length,
+        epochs: initialEpochs + finetuneEpochs,
+        fineTunes: 0
       }
+    };
+  } catch (error) {
+    model.dispose();
+    throw error;
+  } finally {
+    // Clean up tensors
+    xsTensor.dispose();
+    ysTensor.dispose();
+    validation?.xsTensor.dispose();
+    validation?.ysTensor.dispose();
+  }
+};
+
+// Older examples replayed alongside the new ones in a fine-tune, so a handful of new bars
+// does not pull the weights away from everything seen before
+const FINETUNE_REPLAY_PAIRS = 32;
+
+// Continue training a (reloaded) model on the bars after `seenIndex`, the last bar it was
+// trained on, keeping its original scaling so the weights stay meaningful. Level models
+// need prices within that scaling.
+export const fineTuneModel = async (
+  bundle: ModelBundle,
+  candles: Candle[],
+  seenIndex: number,
+  options: TrainingOptions = {},
+  epochs = 20
+): Promise<ModelBundle> => {
+  const { model } = bundle;
+  
+  // Loaded models come back without an optimizer
+  model.compile({
+    optimizer: tf.train.adam(bundle.hyperparameters.finetuneLearningRate),
+    loss: 'meanSquaredError',
+    metrics: ['mse', 'mae']
+  });
+  
+  // Examples whose target the model has not been trained on, plus a replay tail
+  const pairs = supervisedPairs(candles, bundle.features);
+  const newPairs = pairs.filter(({ target }) => target > seenIndex);
+  const replay = pairs.filter(({ target }) => target <= seenIndex).slice(-FINETUNE_REPLAY_PAIRS);
+  const trainPairs = [...replay, ...newPairs];
+  const { xsTensor, ysTensor } = pairTensors(candles, trainPairs, bundle);
+  
+  try {
+    await model.fit(xsTensor, ysTensor, {
+      epochs,
+      batchSize: Math.min(32, trainPairs.length),
+      shuffle: true,
+      callbacks: trainingCallbacks(model, options, 'finetune', epochs)
     });
     
-  // Training completed successfully
-  console.log('LSTM model training completed');    
-    // Store all necessary data for predictions
-    (model as any).normalizationParams = { xMin, xMax, yMin, yMax };
-    (model as any).createAdvancedFeatures = createAdvancedFeatures;
-    (model as any).trainingPrices = ys; // Store for feature calculation
+    if (options.shouldStop?.()) {
+      throw new TrainingCancelledError();
+    }
     
-    return model;
+    return {
+      ...bundle,
+      trainingCandles: candles,
+      metadata: {
+        ...bundle.metadata,
+        updatedAt: new Date().toISOString(),
+        samples: candles.length,
+        epochs: bundle.metadata.epochs + epochs,
+        fineTunes: bundle.metadata.fineTunes + 1
+      }
+    };
   } finally {
-    // Clean up tensors
     xsTensor.dispose();
     ysTensor.dispose();
   }
 };
 
-// Make prediction for next day
-export const predictNextDay = (model: tf.Sequential, nextDayIndex: number): number => {
-  const params = (model as any).normalizationParams;
-  const createFeatures = (model as any).createAdvancedFeatures;
-  const trainingPrices = (model as any).trainingPrices;
-  if (!params || !createFeatures || !trainingPrices) {
-    throw new Error('Model missing required parameters');
+// Bars behind a prediction row. Long enough for every feature to forget its seed, so the
+// row computed from the tail matches the one training computed from the full series.
+export const featureTail = (bundle: Pick<ModelBundle, 'features'>): number =>
+  maxWarmup(bundle.features) + 1 + Math.max(0, ...bundle.features.map(featureMemory));
+
+// Synthetic bar for a forecast price: flat OHLC at that price, volume carried forward
+const forecastCandle = (previous: Candle, price: number): Candle => ({
+  date: previous.date,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  adjClose: price,
+  volume: previous.volume
+});
+
+// Scaled feature rows for the last bar of each series
+const lastFeatureRows = (bundle: ModelBundle, series: Candle[][]): number[][] =>
+  series.map(candles => {
+    const rows = featureMatrix(candles.slice(-featureTail(bundle)), bundle.features);
+    return scaleRow(rows[rows.length - 1], bundle.featureScaling);
+  });
+
+// Turn a network output into the next close after `previous`, falling back to `previous`
+// for unusable outputs. Level predictions stay clamped near the training range.
+const denormalize = (bundle: ModelBundle, value: number, previous: number): number => {
+  const { offset, scale } = bundle.targetScaling;
+  const target = value * scale + offset;
+  if (!isFinite(target)) {
+    return previous;
   }
-  
-  // Create advanced features for the input
-  const features = createFeatures(nextDayIndex, trainingPrices, Math.min(nextDayIndex, trainingPrices.length - 1));
-  
-  const inputTensor = tf.tensor2d([features], [1, 9]);
-  const prediction = model.predict(inputTensor) as tf.Tensor;
-  const normalizedResult = prediction.dataSync()[0];
-  
-  // Denormalize the output (sigmoid output needs special handling)
-  const result = normalizedResult * (params.yMax - params.yMin) + params.yMin;
-  
-  inputTensor.dispose();
-  prediction.dispose();
-  
-  return isNaN(result) ? params.yMin : Math.max(params.yMin * 0.8, Math.min(params.yMax * 1.2, result));
+  switch (bundle.targetMode) {
+    case 'level':
+      return Math.max(offset * 0.8, Math.min((offset + scale) * 1.2, target));
+    case 'log-return':
+      return previous * Math.exp(target);
+    case 'percent-change':
+      return previous * Math.max(0.01, 1 + target);
+  }
+};
+
+// Make prediction for the bar after the training series
+export const predictNextDay = (bundle: ModelBundle): number => predictHorizon(bundle, 1)[0];
+
+// Forecast `steps` periods ahead recursively: each predicted price is appended
+// to the series so the next step's indicators include it
+export const predictHorizon = (bundle: ModelBundle, steps: number): number[] => {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('Forecast horizon must be a positive integer');
+  }
+
+  const series: Candle[] = [...bundle.trainingCandles];
+  const forecast: number[] = [];
+
+  for (let step = 0; step < steps; step++) {
+    const [features] = lastFeatureRows(bundle, [series]);
+
+    const inputTensor = tf.tensor2d([features], [1, features.length]);
+    const prediction = bundle.model.predict(inputTensor) as tf.Tensor;
+    const normalizedResult = prediction.dataSync()[0];
+
+    inputTensor.dispose();
+    prediction.dispose();
+
+    const previous = series[series.length - 1];
+    const price = denormalize(bundle, normalizedResult, previous.close);
+    forecast.push(price);
+    series.push(forecastCandle(previous, price));
+  }
+
+  return forecast;
+};
+
+// Monte Carlo dropout: run the recursive forecast `samples` times with the dropout
+// layers left active, giving one simulated price path per sample (samples x steps)
+export const sampleHorizonPaths = (bundle: ModelBundle, steps: number, samples: number): number[][] => {
+  const tail = bundle.trainingCandles.slice(-featureTail(bundle));
+  const series: Candle[][] = Array.from({ length: samples }, () => [...tail]);
+
+  for (let step = 0; step < steps; step++) {
+    const features = lastFeatureRows(bundle, series);
+
+    const outputs = tf.tidy(() => {
+      const inputTensor = tf.tensor2d(features, [samples, bundle.features.length]);
+      const prediction = bundle.model.apply(inputTensor, { training: true }) as tf.Tensor;
+      return Array.from(prediction.dataSync());
+    });
+
+    outputs.forEach((normalizedResult, i) => {
+      const path = series[i];
+      const previous = path[path.length - 1];
+      path.push(forecastCandle(previous, denormalize(bundle, normalizedResult, previous.close)));
+    });
+  }
+
+  return series.map(path => path.slice(tail.length).map(candle => candle.close));
 };
 
 // Calculate R-squared score for model evaluation
@@ -258,40 +609,27 @@ export const calculateMSE = (actual: number[], predicted: number[]): number => {
   return isNaN(mse) ? 0 : mse;
 };
 
-// Get predictions for existing data (for visualization)
-export const getPredictionsForData = (model: tf.Sequential, xs: number[]): number[] => {
-  const params = (model as any).normalizationParams;
-  const createFeatures = (model as any).createAdvancedFeatures;
-  const trainingPrices = (model as any).trainingPrices;
-  if (!params || !createFeatures || !trainingPrices) {
-    throw new Error('Model missing required parameters');
+// Get predictions for existing data (for visualization): each bar is predicted from the
+// features of the bar before it; null during the feature warm-up
+export const getPredictionsForData = (bundle: ModelBundle): (number | null)[] => {
+  const candles = bundle.trainingCandles;
+  const pairs = supervisedPairs(candles, bundle.features);
+  const predictions: (number | null)[] = Array(candles.length).fill(null);
+  if (pairs.length === 0) {
+    return predictions;
   }
   
-  // Create advanced features for all inputs
-  const xsFeatures = xs.map((x, i) => createFeatures(x, trainingPrices, i));
-  
-  const xsTensor = tf.tensor2d(xsFeatures, [xsFeatures.length, 9]);
-  const predictions = model.predict(xsTensor) as tf.Tensor;
-  const normalizedResults = Array.from(predictions.dataSync());
-  
-  // Denormalize the outputs
-  const result = normalizedResults.map(val => 
-    val * (params.yMax - params.yMin) + params.yMin
-  );
+  const xsTensor = tf.tensor2d(pairs.map(({ row }) => scaleRow(row, bundle.featureScaling)), [pairs.length, bundle.features.length]);
+  const output = bundle.model.predict(xsTensor) as tf.Tensor;
+  const normalizedResults = Array.from(output.dataSync());
   
   xsTensor.dispose();
-  predictions.dispose();
+  output.dispose();
   
-  // Clean and bound the results
-  const cleanResult = result.map((val, i) => {
-    if (isNaN(val)) {
-      return trainingPrices[i] || (params.yMin + params.yMax) / 2;
-    }
-    // Bound predictions within reasonable range
-    return Math.max(params.yMin * 0.8, Math.min(params.yMax * 1.2, val));
+  // Each prediction is reconstructed from the actual close it was made at
+  pairs.forEach(({ origin, target }, i) => {
+    predictions[target] = denormalize(bundle, normalizedResults[i], candles[origin].close);
   });
   
-
-  
-  return cleanResult;
-};
\ No newline at end of file
+  return predictions;
+};
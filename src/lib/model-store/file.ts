@@ -0,0 +1,64 @@
+import * as tf from '@tensorflow/tfjs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ModelBundle } from '../ml-utils';
+import { ModelStore, attachBundleMetadata, bundleFromModel } from './types';
+
+export const DEFAULT_MODEL_STORE_DIR = path.join(process.cwd(), '.cache', 'models');
+
+// Server-side storage: one JSON file per key holding the topology, base64 weights
+// and bundle metadata
+export const createFileModelStore = (dir = process.env.MODEL_STORE_DIR || DEFAULT_MODEL_STORE_DIR): ModelStore => {
+  const fileFor = (key: string) =>
+    path.join(dir, `${crypto.createHash('sha1').update(key).digest('hex')}.model.json`);
+
+  return {
+    name: 'file',
+
+    async load(key: string) {
+      let saved;
+      try {
+        saved = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+      } catch {
+        return null;
+      }
+      if (saved?.key !== key) {
+        return null;
+      }
+
+      const weights = Buffer.from(saved.weightData, 'base64');
+      const model = await tf.loadLayersModel(tf.io.fromMemory({
+        modelTopology: saved.modelTopology,
+        weightSpecs: saved.weightSpecs,
+        weightData: weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength),
+        userDefinedMetadata: saved.userDefinedMetadata
+      }));
+      return bundleFromModel(model);
+    },
+
+    async save(key: string, bundle: ModelBundle) {
+      attachBundleMetadata(bundle);
+      await bundle.model.save(tf.io.withSaveHandler(async artifacts => {
+        const weightData = tf.io.CompositeArrayBuffer.join(artifacts.weightData);
+        await fs.mkdir(dir, { recursive: true });
+        // Write then rename so readers never see a half-written file
+        const target = fileFor(key);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify({
+          key,
+          modelTopology: artifacts.modelTopology,
+          weightSpecs: artifacts.weightSpecs,
+          weightData: Buffer.from(weightData).toString('base64'),
+          userDefinedMetadata: artifacts.userDefinedMetadata
+        }));
+        await fs.rename(temp, target);
+        return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts) };
+      }));
+    },
+
+    async delete(key: string) {
+      await fs.rm(fileFor(key), { force: true });
+    }
+  };
+};
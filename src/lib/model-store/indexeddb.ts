@@ -0,0 +1,34 @@
+import * as tf from '@tensorflow/tfjs';
+import { ModelBundle } from '../ml-utils';
+import { ModelStore, attachBundleMetadata, bundleFromModel } from './types';
+
+// Browser (and Web Worker) storage through TF.js's `indexeddb://` handler
+export const createIndexedDbModelStore = (prefix = 'stock-predictor'): ModelStore => {
+  const urlFor = (key: string) => `indexeddb://${prefix}/${key}`;
+
+  return {
+    name: 'indexeddb',
+
+    async load(key: string) {
+      try {
+        return bundleFromModel(await tf.loadLayersModel(urlFor(key)));
+      } catch {
+        // Nothing saved under this key yet
+        return null;
+      }
+    },
+
+    async save(key: string, bundle: ModelBundle) {
+      attachBundleMetadata(bundle);
+      await bundle.model.save(urlFor(key));
+    },
+
+    async delete(key: string) {
+      try {
+        await tf.io.removeModel(urlFor(key));
+      } catch {
+        // Already gone
+      }
+    }
+  };
+};
@@ -0,0 +1,44 @@
+import * as tf from '@tensorflow/tfjs';
+import { FEATURE_VERSION } from '../features';
+import { ModelBundle, featureTail } from '../ml-utils';
+
+// Persistence for trained model bundles, keyed per symbol and data window
+export interface ModelStore {
+  name: string;
+  load(key: string): Promise<ModelBundle | null>;
+  save(key: string, bundle: ModelBundle): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Everything in a bundle except the weights, saved as the model's user-defined metadata
+type BundleMetadata = Omit<ModelBundle, 'model'>;
+
+// Attach the bundle's features and scaling to the model before `model.save`. Only the
+// tail of the history that the next feature rows need is kept, which keeps long series
+// under tf.js's metadata size limit; `metadata.lastDate` records where training stopped.
+export const attachBundleMetadata = ({ model, ...bundle }: ModelBundle): void => {
+  const metadata: BundleMetadata = { ...bundle, trainingCandles: bundle.trainingCandles.slice(-featureTail(bundle)) };
+  model.setUserDefinedMetadata(metadata);
+};
+
+// Rebuild a bundle from a loaded model; models saved with an older feature definition
+// or bundle layout are unusable and are disposed
+export const bundleFromModel = (model: tf.LayersModel): ModelBundle | null => {
+  const saved = model.getUserDefinedMetadata() as Partial<BundleMetadata> | undefined;
+  if (
+    !saved ||
+    saved.featureVersion !== FEATURE_VERSION ||
+    !Array.isArray(saved.features) ||
+    !saved.featureScaling ||
+    !saved.targetMode ||
+    !saved.targetScaling ||
+    !saved.hyperparameters ||
+    !Array.isArray(saved.trainingCandles) ||
+    !saved.metadata
+  ) {
+    model.dispose();
+    return null;
+  }
+
+  return { ...(saved as BundleMetadata), model };
+};
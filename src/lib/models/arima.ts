@@ -0,0 +1,155 @@
+import { ModelOutput } from './types';
+
+interface ArmaFit {
+  p: number;
+  q: number;
+  constant: number;
+  ar: number[];
+  ma: number[];
+  // One-step errors, 0 before the first fitted point
+  residuals: number[];
+  start: number;
+  aic: number;
+}
+
+const MAX_ORDER = 2;
+
+// Least squares via the normal equations with a tiny ridge for stability
+const leastSquares = (rows: number[][], targets: number[]): number[] | null => {
+  const k = rows[0]?.length ?? 0;
+  if (k === 0 || rows.length <= k) {
+    return null;
+  }
+
+  const a = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? 1e-8 : 0))
+  );
+  const b = Array.from({ length: k }, (_, i) => rows.reduce((sum, row, r) => sum + row[i] * targets[r], 0));
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < k; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      return null;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < k; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let j = col; j < k; j++) {
+        a[row][j] -= factor * a[col][j];
+      }
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const solution = Array(k).fill(0);
+  for (let row = k - 1; row >= 0; row--) {
+    const rest = a[row].slice(row + 1).reduce((sum, value, j) => sum + value * solution[row + 1 + j], 0);
+    solution[row] = (b[row] - rest) / a[row][row];
+  }
+  return solution.every(value => isFinite(value)) ? solution : null;
+};
+
+// Lagged regressors [1, x(t-1..t-p), e(t-1..t-q)]
+const regressors = (x: number[], errors: number[], t: number, p: number, q: number): number[] => [
+  1,
+  ...Array.from({ length: p }, (_, i) => x[t - 1 - i]),
+  ...Array.from({ length: q }, (_, j) => errors[t - 1 - j])
+];
+
+// ARMA(p, q) by Hannan-Rissanen: a long autoregression estimates the innovations,
+// then x is regressed on its own lags and the lagged innovations
+const fitArma = (x: number[], p: number, q: number): ArmaFit | null => {
+  const longOrder = q > 0 ? Math.min(10, Math.floor(x.length / 5)) : 0;
+  let innovations = Array(x.length).fill(0);
+
+  if (q > 0) {
+    if (longOrder < 1) {
+      return null;
+    }
+    const rows = x.slice(longOrder).map((_, i) => regressors(x, [], i + longOrder, longOrder, 0));
+    const coefficients = leastSquares(rows, x.slice(longOrder));
+    if (!coefficients) {
+      return null;
+    }
+    innovations = x.map((value, t) =>
+      t < longOrder ? 0 : value - regressors(x, [], t, longOrder, 0).reduce((sum, r, i) => sum + r * coefficients[i], 0)
+    );
+  }
+
+  const start = Math.max(p, longOrder + q);
+  const rows = x.slice(start).map((_, i) => regressors(x, innovations, i + start, p, q));
+  const coefficients = leastSquares(rows, x.slice(start));
+  if (!coefficients) {
+    return null;
+  }
+
+  const [constant, ...rest] = coefficients;
+  const ar = rest.slice(0, p);
+  const ma = rest.slice(p);
+  // Sufficient conditions for a stationary, invertible model
+  if (ar.reduce((sum, c) => sum + Math.abs(c), 0) >= 1 || ma.reduce((sum, c) => sum + Math.abs(c), 0) >= 1) {
+    return null;
+  }
+
+  // Conditional one-step errors with the final coefficients
+  const residuals = Array(x.length).fill(0);
+  for (let t = start; t < x.length; t++) {
+    residuals[t] = x[t] - regressors(x, residuals, t, p, q).reduce((sum, r, i) => sum + r * coefficients[i], 0);
+  }
+  const samples = x.length - start;
+  const variance = residuals.slice(start).reduce((sum, e) => sum + e * e, 0) / samples;
+  const aic = samples * Math.log(Math.max(variance, 1e-20)) + 2 * (p + q + 1);
+
+  return isFinite(aic) ? { p, q, constant, ar, ma, residuals, start, aic } : null;
+};
+
+// ARIMA(p, 1, q) on log prices: orders up to 2 are compared by AIC, the chosen ARMA
+// model forecasts log returns, which are compounded back into prices
+export const arimaOutput = (prices: number[], horizon: number): ModelOutput => {
+  const logPrices = prices.map(price => Math.log(price));
+  const x = logPrices.slice(1).map((value, i) => value - logPrices[i]);
+
+  let best: ArmaFit | null = null;
+  for (let p = 0; p <= MAX_ORDER; p++) {
+    for (let q = 0; q <= MAX_ORDER; q++) {
+      const fit = fitArma(x, p, q);
+      if (fit && (!best || fit.aic < best.aic)) {
+        best = fit;
+      }
+    }
+  }
+  if (!best) {
+    throw new Error('ARIMA could not be fitted to this series');
+  }
+
+  const { p, q, constant, ar, ma, residuals, start } = best;
+  const coefficients = [constant, ...ar, ...ma];
+  // Future innovations are zero in the point forecast
+  const extended = [...x];
+  const errors = [...residuals];
+  const forecast: number[] = [];
+  let logPrice = logPrices[logPrices.length - 1];
+  for (let step = 0; step < horizon; step++) {
+    const t = extended.length;
+    const next = regressors(extended, errors, t, p, q).reduce((sum, r, i) => sum + r * coefficients[i], 0);
+    extended.push(next);
+    errors.push(0);
+    logPrice += next;
+    forecast.push(Math.exp(logPrice));
+  }
+
+  // x[t] is the return into bar t + 1, so its one-step prediction prices that bar
+  const fitted: (number | null)[] = [null, ...x.map((value, t) =>
+    t < start ? null : prices[t] * Math.exp(value - residuals[t])
+  )];
+
+  return { forecast, fitted, fitKind: 'in-sample', label: `ARIMA(${p},1,${q})` };
+};
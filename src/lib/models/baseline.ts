@@ -0,0 +1,24 @@
+import { ModelOutput } from './types';
+
+// Random walk: every future bar equals the last close, and each bar's one-step
+// forecast is the close before it
+export const naiveOutput = (prices: number[], horizon: number): ModelOutput => ({
+  forecast: Array(horizon).fill(prices[prices.length - 1]),
+  fitted: [null, ...prices.slice(0, -1)],
+  fitKind: 'out-of-sample'
+});
+
+// Random walk with drift: extend the average change between the first and last close
+export const driftOutput = (prices: number[], horizon: number): ModelOutput => {
+  const last = prices[prices.length - 1];
+  const slope = prices.length > 1 ? (last - prices[0]) / (prices.length - 1) : 0;
+
+  return {
+    forecast: Array.from({ length: horizon }, (_, step) => last + slope * (step + 1)),
+    // Each one-step forecast only uses the drift of the bars before it
+    fitted: prices.map((_, i) =>
+      i < 2 ? null : prices[i - 1] + (prices[i - 1] - prices[0]) / (i - 1)
+    ),
+    fitKind: 'out-of-sample'
+  };
+};
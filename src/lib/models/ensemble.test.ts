@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Candle } from '../market-data';
+import { TrainingOptions } from '../ml-utils';
+import { buildPrediction } from '../prediction';
+import { ensemblePredict } from './ensemble';
+import { getForecaster } from './registry';
+import { Forecaster } from './types';
+
+const candles: Candle[] = Array.from({ length: 120 }, (_, i) => {
+  const close = 100 + i * 0.5 + 3 * Math.sin(i / 3);
+  return { date: `2025-01-${String(i).padStart(3, '0')}`, open: close, high: close + 1, low: close - 1, close, adjClose: close, volume: 1000 };
+});
+
+// A member that forecasts a flat line at `offset` above the last close
+const fakeMember = (id: 'naive' | 'neural', runtime: Forecaster['runtime'], offset: number): Forecaster => {
+  const forecast = async (history: Candle[], horizon: number) =>
+    Array(horizon).fill(history[history.length - 1].close + offset);
+  return {
+    id,
+    label: id,
+    description: id,
+    runtime,
+    minHistory: 10,
+    forecast: vi.fn(forecast),
+    predict: vi.fn(async (history: Candle[], horizon: number) =>
+      buildPrediction(history, horizon, id, id, { forecast: await forecast(history, horizon), fitted: history.map(() => null), fitKind: 'in-sample' }))
+  };
+};
+
+describe('ensemblePredict', () => {
+  it('scores network members on fewer folds and passes them the training options', async () => {
+    const closedForm = fakeMember('naive', 'main', 1);
+    const network = fakeMember('neural', 'worker', 4);
+    const options: TrainingOptions = { shouldStop: () => false };
+
+    const result = await ensemblePredict(candles, 1, [closedForm, network], options);
+
+    expect(closedForm.forecast).toHaveBeenCalledTimes(8);
+    expect(network.forecast).toHaveBeenCalledTimes(2);
+    expect(network.forecast).toHaveBeenCalledWith(expect.any(Array), 1, options);
+    expect(network.predict).toHaveBeenCalledWith(candles, 1, options);
+    // The closer member gets the larger weight
+    const [naiveWeight, neuralWeight] = result.ensemble!.map(member => member.weight);
+    expect(naiveWeight).toBeGreaterThan(neuralWeight);
+  });
+
+  it('stops instead of down-weighting a member when training is cancelled', async () => {
+    const network = fakeMember('neural', 'worker', 0);
+    vi.mocked(network.forecast).mockRejectedValue(new Error('Training cancelled'));
+    await expect(ensemblePredict(candles, 1, [network], { shouldStop: () => true })).rejects.toThrow('Training cancelled');
+  });
+});
+
+describe('ensemble forecaster', () => {
+  it('includes the neural network among its members', () => {
+    expect(getForecaster('ensemble').description).toContain(getForecaster('neural').label);
+  });
+});
@@ -0,0 +1,127 @@
+import { walkForwardBacktest } from '../backtest';
+import { Candle } from '../market-data';
+import { TrainingOptions } from '../ml-utils';
+import { EnsembleMember, NeuralPredictionOptions, PredictionResult, buildPrediction } from '../prediction';
+import { Forecaster } from './types';
+
+// Members are scored on forecast origins spread over this many recent bars
+const RECENT_BARS = 60;
+const WEIGHTING_FOLDS = 8;
+// Networks are retrained at every origin, so they are scored on fewer
+const NETWORK_WEIGHTING_FOLDS = 2;
+
+interface MemberScore {
+  forecaster: Forecaster;
+  // Mean absolute error over every step of the horizon; NaN when it couldn't be measured
+  error: number;
+}
+
+// Recent walk-forward error of each member. A member that can't be backtested on this
+// history (too short, or it failed) gets NaN and is weighted like the average member;
+// a cancelled one stops the whole ensemble.
+const scoreMembers = async (
+  history: Candle[],
+  horizon: number,
+  members: Forecaster[],
+  options: TrainingOptions
+): Promise<MemberScore[]> =>
+  Promise.all(members.map(async forecaster => {
+    try {
+      const { metrics } = await walkForwardBacktest(history, (fold, steps) => forecaster.forecast(fold, steps, options), {
+        horizon,
+        minTrainSize: Math.max(forecaster.minHistory, history.length - horizon - RECENT_BARS),
+        maxFolds: forecaster.runtime === 'worker' ? NETWORK_WEIGHTING_FOLDS : WEIGHTING_FOLDS
+      });
+      const errors = metrics.map(metric => metric.mae).filter(error => isFinite(error));
+      const error = errors.reduce((sum, value) => sum + value, 0) / errors.length;
+      return { forecaster, error };
+    } catch (error) {
+      if (options.shouldStop?.()) {
+        throw error;
+      }
+      return { forecaster, error: NaN };
+    }
+  }));
+
+// Inverse-error weights summing to 1; equal weights when no member could be scored
+const inverseErrorWeights = (scores: MemberScore[]): number[] => {
+  const inverses = scores.map(({ error }) => (isFinite(error) ? 1 / Math.max(error, 1e-9) : NaN));
+  const known = inverses.filter(value => isFinite(value));
+  if (known.length === 0) {
+    return scores.map(() => 1 / scores.length);
+  }
+  const fallback = known.reduce((sum, value) => sum + value, 0) / known.length;
+  const filled = inverses.map(value => (isFinite(value) ? value : fallback));
+  const total = filled.reduce((sum, value) => sum + value, 0);
+  return filled.map(value => value / total);
+};
+
+// Members that can run on this history
+const usableMembers = (history: Candle[], members: Forecaster[]): Forecaster[] => {
+  const usable = members.filter(member => history.length >= member.minHistory);
+  if (usable.length === 0) {
+    throw new Error('Not enough history for any ensemble member');
+  }
+  return usable;
+};
+
+// Blend the members' forecasts, weighting each by the inverse of its recent
+// walk-forward error, and report what each member contributed. Options reach the network
+// members, so they can be cancelled and reuse their saved models.
+export const ensemblePredict = async (
+  history: Candle[],
+  horizon: number,
+  members: Forecaster[],
+  options: NeuralPredictionOptions = {},
+  label = 'Ensemble'
+): Promise<PredictionResult> => {
+  const scores = await scoreMembers(history, horizon, usableMembers(history, members), options);
+  const weights = inverseErrorWeights(scores);
+  const results = await Promise.all(scores.map(({ forecaster }) => forecaster.predict(history, horizon, options)));
+
+  const forecast = Array.from({ length: horizon }, (_, step) =>
+    results.reduce((sum, result, i) => sum + weights[i] * result.forecast[step], 0)
+  );
+  // Weighted fit wherever every member has a value
+  const fitted = history.map((_, bar) => {
+    const values = results.map(result => result.historicalFit.values[bar]);
+    return values.every(value => value !== null && value !== undefined)
+      ? values.reduce((sum: number, value, i) => sum + weights[i] * (value as number), 0)
+      : null;
+  });
+  const outOfSample = results.every(result => result.historicalFit.kind === 'out-of-sample');
+
+  const prediction = buildPrediction(history, horizon, 'ensemble', label, {
+    forecast,
+    fitted,
+    fitKind: outOfSample ? 'out-of-sample' : 'in-sample'
+  });
+
+  const ensemble: EnsembleMember[] = scores.map(({ forecaster, error }, i) => ({
+    model: forecaster.id,
+    label: forecaster.label,
+    weight: parseFloat(weights[i].toFixed(4)),
+    backtestMae: isFinite(error) ? parseFloat(error.toFixed(2)) : null,
+    predictedPrice: results[i].predictedPrice,
+    changePercent: results[i].changePercent,
+    // Weighted share of the ensemble's move; the members' contributions add up to its change
+    contribution: parseFloat((weights[i] * (results[i].predictedPrice - prediction.currentPrice)).toFixed(2))
+  }));
+
+  return { ...prediction, ensemble };
+};
+
+// Point forecast of the same blend, for backtesting the ensemble itself
+export const ensembleForecast = async (
+  history: Candle[],
+  horizon: number,
+  members: Forecaster[],
+  options: TrainingOptions = {}
+): Promise<number[]> => {
+  const scores = await scoreMembers(history, horizon, usableMembers(history, members), options);
+  const weights = inverseErrorWeights(scores);
+  const forecasts = await Promise.all(scores.map(({ forecaster }) => forecaster.forecast(history, horizon, options)));
+  return Array.from({ length: horizon }, (_, step) =>
+    forecasts.reduce((sum, memberForecast, i) => sum + weights[i] * memberForecast[step], 0)
+  );
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { holtWintersOutput, inferSeasonPeriod } from './holt-winters';
+
+// Consecutive calendar days, which read as daily bars with a 5-bar season
+const dates = (length: number) =>
+  Array.from({ length }, (_, i) => new Date(Date.UTC(2025, 0, 1) + i * 86400000).toISOString().slice(0, 10));
+
+describe('holtWintersOutput', () => {
+  it('infers a trading week for daily bars', () => {
+    expect(inferSeasonPeriod(dates(30))).toBe(5);
+  });
+
+  it('picks the seasonal model for a series with a weekly pattern', () => {
+    const pattern = [0, 3, -2, 4, -5];
+    const prices = Array.from({ length: 100 }, (_, i) => 100 + 0.2 * i + pattern[i % 5]);
+    const output = holtWintersOutput(prices, dates(prices.length), 5);
+    expect(output.label).toBe('Holt-Winters (5-bar season)');
+    output.forecast.forEach((price, step) => expect(price).toBeCloseTo(100 + 0.2 * (100 + step) + pattern[(100 + step) % 5], 0));
+  });
+
+  it('keeps the non-seasonal model for a seasonless random walk', () => {
+    let state = 7;
+    const prices = [100];
+    for (let i = 1; i < 200; i++) {
+      state = (state * 16807) % 2147483647;
+      prices.push(prices[i - 1] + (state / 2147483647 - 0.5) * 2);
+    }
+    expect(holtWintersOutput(prices, dates(prices.length), 1).label).toBe('Holt (damped trend)');
+  });
+});
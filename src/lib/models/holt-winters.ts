@@ -0,0 +1,146 @@
+import { ModelOutput } from './types';
+
+interface SmoothingParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  // Trend damping; 1 keeps the trend going forever
+  phi: number;
+  // Bars per seasonal cycle; 1 disables the seasonal component
+  period: number;
+}
+
+interface SmoothingState {
+  level: number;
+  trend: number;
+  season: number[];
+  fitted: (number | null)[];
+  sse: number;
+  samples: number;
+}
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9, 0.99];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.01, 0.1, 0.3];
+const PHIS = [0.9, 0.98, 1];
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Bars per seasonal cycle from the spacing of the dates: a session's worth of
+// intraday bars, a trading week of daily bars, a year of weekly or monthly bars
+export const inferSeasonPeriod = (dates: string[]): number => {
+  if (dates.length < 2) {
+    return 1;
+  }
+  if (dates[0].includes('T')) {
+    const barsPerDay = new Map<string, number>();
+    dates.forEach(date => barsPerDay.set(date.slice(0, 10), (barsPerDay.get(date.slice(0, 10)) ?? 0) + 1));
+    const counts = [...barsPerDay.values()].sort((a, b) => a - b);
+    return Math.max(1, counts[Math.floor(counts.length / 2)]);
+  }
+
+  const gaps = dates.slice(1)
+    .map((date, i) => (Date.parse(date) - Date.parse(dates[i])) / 86400000)
+    .sort((a, b) => a - b);
+  const medianGap = gaps[Math.floor(gaps.length / 2)];
+  if (medianGap <= 1.5) {
+    return 5;
+  }
+  return medianGap <= 8 ? 52 : 12;
+};
+
+// Damped additive Holt-Winters, recording the one-step forecast made before each bar.
+// Errors count towards sse from `scoreFrom` on, so candidates can be scored on one span.
+const smooth = (prices: number[], { alpha, beta, gamma, phi, period }: SmoothingParams, scoreFrom = period): SmoothingState => {
+  const seasonal = period > 1;
+  let level: number;
+  let trend: number;
+  let season: number[];
+  let start: number;
+
+  if (seasonal) {
+    // Initialise from the first two cycles
+    const first = mean(prices.slice(0, period));
+    const second = mean(prices.slice(period, 2 * period));
+    level = first;
+    trend = (second - first) / period;
+    season = prices.slice(0, period).map(price => price - first);
+    start = period;
+  } else {
+    level = prices[0];
+    trend = prices[1] - prices[0];
+    season = [0];
+    start = 1;
+  }
+
+  const fitted: (number | null)[] = Array(start).fill(null);
+  let sse = 0;
+
+  for (let t = start; t < prices.length; t++) {
+    const s = season[t % season.length];
+    const forecast = level + phi * trend + s;
+    fitted.push(forecast);
+    if (t >= scoreFrom) {
+      sse += (prices[t] - forecast) ** 2;
+    }
+
+    const nextLevel = alpha * (prices[t] - s) + (1 - alpha) * (level + phi * trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * phi * trend;
+    if (seasonal) {
+      season[t % period] = gamma * (prices[t] - nextLevel) + (1 - gamma) * s;
+    }
+    level = nextLevel;
+  }
+
+  return { level, trend, season, fitted, sse, samples: prices.length - Math.max(start, scoreFrom) };
+};
+
+// Grid-search the smoothing parameters (with and without seasonality) by AIC on
+// one-step errors, then extend the damped trend and the seasonal pattern
+export const holtWintersOutput = (prices: number[], dates: string[], horizon: number): ModelOutput => {
+  const candidatePeriod = inferSeasonPeriod(dates);
+  const periods = candidatePeriod > 1 && prices.length >= 3 * candidatePeriod ? [1, candidatePeriod] : [1];
+  // Every candidate is scored from the first bar the seasonal one can forecast, or the
+  // AICs would be sums over different spans
+  const scoreFrom = Math.max(...periods);
+
+  let best: { params: SmoothingParams; state: SmoothingState; aic: number } | null = null;
+  for (const period of periods) {
+    for (const alpha of ALPHAS) {
+      for (const beta of BETAS) {
+        for (const phi of PHIS) {
+          for (const gamma of period > 1 ? GAMMAS : [0]) {
+            const params = { alpha, beta, gamma, phi, period };
+            const state = smooth(prices, params, scoreFrom);
+            // Seasonal models pay for their extra smoothing parameter and initial states
+            const parameterCount = period > 1 ? 4 + period : 3;
+            const aic = state.samples * Math.log(Math.max(state.sse, 1e-12) / state.samples) + 2 * parameterCount;
+            if (isFinite(aic) && (!best || aic < best.aic)) {
+              best = { params, state, aic };
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (!best) {
+    throw new Error('Holt-Winters could not be fitted to this series');
+  }
+
+  const { params: { phi, period }, state } = best;
+  const forecast: number[] = [];
+  let dampedTrend = 0;
+  for (let step = 1; step <= horizon; step++) {
+    dampedTrend += phi ** step * state.trend;
+    const s = state.season[(prices.length + step - 1) % state.season.length];
+    forecast.push(state.level + dampedTrend + s);
+  }
+
+  return {
+    forecast,
+    fitted: state.fitted,
+    fitKind: 'in-sample',
+    label: period > 1 ? `Holt-Winters (${period}-bar season)` : 'Holt (damped trend)'
+  };
+};
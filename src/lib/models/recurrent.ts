@@ -0,0 +1,163 @@
+import * as tf from '@tensorflow/tfjs';
+import { TrainingCancelledError, TrainingOptions, trainingCallbacks } from '../ml-utils';
+import { ModelOutput } from './types';
+
+export type RecurrentCell = 'lstm' | 'gru';
+
+// Bars of standardized log returns the network sees per prediction
+export const RECURRENT_WINDOW = 20;
+const RECURRENT_EPOCHS = 40;
+const RECURRENT_UNITS = 32;
+// Share of the (most recent) windows held out for validation
+const RECURRENT_VALIDATION_SHARE = 0.1;
+
+interface RecurrentModel {
+  model: tf.Sequential;
+  returns: number[];
+  mean: number;
+  std: number;
+}
+
+const logReturns = (prices: number[]): number[] =>
+  prices.slice(1).map((price, i) => Math.log(price / prices[i]));
+
+// Train a single-layer LSTM/GRU to map the last RECURRENT_WINDOW standardized log
+// returns to the next one
+const trainRecurrentModel = async (
+  prices: number[],
+  cell: RecurrentCell,
+  options: TrainingOptions
+): Promise<RecurrentModel> => {
+  const returns = logReturns(prices);
+  if (returns.length < RECURRENT_WINDOW + 10) {
+    throw new Error(`The ${cell.toUpperCase()} model needs at least ${RECURRENT_WINDOW + 11} bars`);
+  }
+
+  // Window i ends at return i + RECURRENT_WINDOW - 1 and targets the return after it.
+  // Standardization is fitted only on the returns the training windows can see.
+  const windowCount = returns.length - RECURRENT_WINDOW;
+  const trainCount = Math.max(1, Math.floor(windowCount * (1 - RECURRENT_VALIDATION_SHARE)));
+  const seen = returns.slice(0, trainCount + RECURRENT_WINDOW);
+  const mean = seen.reduce((sum, r) => sum + r, 0) / seen.length;
+  const std = Math.sqrt(seen.reduce((sum, r) => sum + (r - mean) ** 2, 0) / seen.length) || 1;
+  const scaled = returns.map(r => (r - mean) / std);
+
+  const windows = scaled.slice(RECURRENT_WINDOW).map((_, i) => scaled.slice(i, i + RECURRENT_WINDOW).map(value => [value]));
+  const targets = scaled.slice(RECURRENT_WINDOW).map(value => [value]);
+
+  const model = tf.sequential();
+  const layerConfig = { units: RECURRENT_UNITS, inputShape: [RECURRENT_WINDOW, 1] };
+  model.add(cell === 'lstm' ? tf.layers.lstm(layerConfig) : tf.layers.gru(layerConfig));
+  model.add(tf.layers.dropout({ rate: 0.2 }));
+  model.add(tf.layers.dense({ units: 1 }));
+  model.compile({ optimizer: tf.train.adam(0.005), loss: 'meanSquaredError' });
+
+  const xsTensor = tf.tensor3d(windows.slice(0, trainCount), [trainCount, RECURRENT_WINDOW, 1]);
+  const ysTensor = tf.tensor2d(targets.slice(0, trainCount), [trainCount, 1]);
+  const validationCount = windowCount - trainCount;
+  const validationData: [tf.Tensor, tf.Tensor] | undefined = validationCount > 0
+    ? [
+      tf.tensor3d(windows.slice(trainCount), [validationCount, RECURRENT_WINDOW, 1]),
+      tf.tensor2d(targets.slice(trainCount), [validationCount, 1])
+    ]
+    : undefined;
+
+  try {
+    await model.fit(xsTensor, ysTensor, {
+      epochs: RECURRENT_EPOCHS,
+      batchSize: 32,
+      shuffle: true,
+      validationData,
+      callbacks: trainingCallbacks(model, options, 'train', RECURRENT_EPOCHS)
+    });
+
+    if (options.shouldStop?.()) {
+      throw new TrainingCancelledError();
+    }
+
+    return { model, returns: scaled, mean, std };
+  } catch (error) {
+    model.dispose();
+    throw error;
+  } finally {
+    xsTensor.dispose();
+    ysTensor.dispose();
+    validationData?.forEach(tensor => tensor.dispose());
+  }
+};
+
+// Roll the network forward for every path at once; with `sample` the dropout layer
+// stays active so each path is a Monte Carlo draw
+const rollForward = (recurrent: RecurrentModel, lastPrice: number, steps: number, paths: number, sample: boolean): number[][] => {
+  const { model, returns, mean, std } = recurrent;
+  const windows = Array.from({ length: paths }, () => returns.slice(-RECURRENT_WINDOW));
+  const prices = Array.from({ length: paths }, () => [] as number[]);
+
+  for (let step = 0; step < steps; step++) {
+    const outputs = tf.tidy(() => {
+      const input = tf.tensor3d(windows.map(window => window.map(value => [value])), [paths, RECURRENT_WINDOW, 1]);
+      const prediction = (sample ? model.apply(input, { training: true }) : model.predict(input)) as tf.Tensor;
+      return Array.from(prediction.dataSync());
+    });
+
+    outputs.forEach((value, i) => {
+      const next = isFinite(value) ? value : 0;
+      windows[i] = [...windows[i].slice(1), next];
+      const previous = prices[i].length > 0 ? prices[i][prices[i].length - 1] : lastPrice;
+      prices[i].push(previous * Math.exp(next * std + mean));
+    });
+  }
+
+  return prices;
+};
+
+// One-step predictions over the training history (in-sample)
+const fittedPrices = (recurrent: RecurrentModel, prices: number[]): (number | null)[] => {
+  const { model, returns, mean, std } = recurrent;
+  const windows = returns.slice(RECURRENT_WINDOW).map((_, i) => returns.slice(i, i + RECURRENT_WINDOW).map(value => [value]));
+  const outputs = tf.tidy(() => {
+    const input = tf.tensor3d(windows, [windows.length, RECURRENT_WINDOW, 1]);
+    return Array.from((model.predict(input) as tf.Tensor).dataSync());
+  });
+
+  // returns[k] is the move into bar k + 1
+  return [
+    ...Array(RECURRENT_WINDOW + 1).fill(null),
+    ...outputs.map((value, i) => prices[RECURRENT_WINDOW + i] * Math.exp(value * std + mean))
+  ];
+};
+
+export const recurrentOutput = async (
+  prices: number[],
+  horizon: number,
+  cell: RecurrentCell,
+  options: TrainingOptions = {},
+  samples = 200
+): Promise<ModelOutput> => {
+  const recurrent = await trainRecurrentModel(prices, cell, options);
+  try {
+    const lastPrice = prices[prices.length - 1];
+    return {
+      forecast: rollForward(recurrent, lastPrice, horizon, 1, false)[0],
+      fitted: fittedPrices(recurrent, prices),
+      fitKind: 'in-sample',
+      paths: rollForward(recurrent, lastPrice, horizon, samples, true)
+    };
+  } finally {
+    recurrent.model.dispose();
+  }
+};
+
+export const recurrentForecast = async (
+  prices: number[],
+  horizon: number,
+  cell: RecurrentCell,
+  options: TrainingOptions = {}
+): Promise<number[]> => {
+  const recurrent = await trainRecurrentModel(prices, cell, options);
+  try {
+    return rollForward(recurrent, prices[prices.length - 1], horizon, 1, false)[0];
+  } finally {
+    recurrent.model.dispose();
+  }
+};
@@ -0,0 +1,121 @@
+import { Candle } from '../market-data';
+import { DEFAULT_FEATURES } from '../features';
+import { TargetMode, minTrainingCandles, processStockData } from '../ml-utils';
+import { buildPrediction, fastPredictStock, neuralForecast, neuralPredictStock } from '../prediction';
+import { tuneNeuralModel } from '../tuning';
+import { arimaOutput } from './arima';
+import { driftOutput, naiveOutput } from './baseline';
+import { ensembleForecast, ensemblePredict } from './ensemble';
+import { holtWintersOutput } from './holt-winters';
+import { RECURRENT_WINDOW, RecurrentCell, recurrentForecast, recurrentOutput } from './recurrent';
+import { Forecaster, ModelId, ModelOutput } from './types';
+
+export const DEFAULT_MODEL: ModelId = 'neural';
+
+// Closed-form models: predict and forecast share one fit
+const fittedModel = (
+  id: ModelId,
+  label: string,
+  description: string,
+  minHistory: number,
+  fit: (prices: number[], dates: string[], horizon: number) => ModelOutput
+): Forecaster => ({
+  id,
+  label,
+  description,
+  runtime: 'main',
+  minHistory,
+  predict: async (history, horizon) => {
+    const { prices, dates } = processStockData(history);
+    return buildPrediction(history, horizon, id, label, fit(prices, dates, horizon));
+  },
+  forecast: async (history, horizon) => {
+    const { prices, dates } = processStockData(history);
+    return fit(prices, dates, horizon).forecast;
+  }
+});
+
+// The indicator-feature MLP under one target mode; each mode keeps its own saved model
+const neuralModel = (id: ModelId, label: string, targetMode: TargetMode, target: string): Forecaster => ({
+  id,
+  label,
+  description: `${DEFAULT_FEATURES.length}-feature neural network (returns, SMA ratios, RSI, MACD, Bollinger %B, ATR, OBV, volatility) with tunable hidden layers, predicting ${target}`,
+  runtime: 'worker',
+  minHistory: minTrainingCandles(),
+  predict: async (history, horizon, options = {}) => ({
+    ...await neuralPredictStock(history, horizon, {
+      ...options,
+      targetMode,
+      modelKey: options.modelKey && `${options.modelKey}:${targetMode}`
+    }),
+    model: id
+  }),
+  forecast: (history, horizon, options = {}) => neuralForecast(history, horizon, { ...options, targetMode }),
+  tune: (history, options = {}) => tuneNeuralModel(processStockData(history).candles, { ...options, targetMode })
+});
+
+const recurrentModel = (cell: RecurrentCell, label: string): Forecaster => ({
+  id: cell,
+  label,
+  description: `${label} network over the last ${RECURRENT_WINDOW} standardized log returns, with Monte Carlo dropout intervals`,
+  runtime: 'worker',
+  minHistory: RECURRENT_WINDOW + 11,
+  predict: async (history, horizon, options) => {
+    const { prices } = processStockData(history);
+    return buildPrediction(history, horizon, cell, label, await recurrentOutput(prices, horizon, cell, options));
+  },
+  forecast: async (history, horizon, options) =>
+    recurrentForecast(processStockData(history).prices, horizon, cell, options)
+});
+
+// Models cheap enough to refit at every backtest origin
+const CLOSED_FORM_FORECASTERS: Forecaster[] = [
+  fittedModel('naive', 'Naive (last close)', 'Random walk: every future bar repeats the last close', 2,
+    (prices, _, horizon) => naiveOutput(prices, horizon)),
+  fittedModel('drift', 'Drift', 'Random walk with drift: extends the average change across the history', 3,
+    (prices, _, horizon) => driftOutput(prices, horizon)),
+  {
+    id: 'statistical',
+    label: 'Trend + moving averages',
+    description: 'Statistical model: 10-bar linear trend with moving averages',
+    runtime: 'main',
+    minHistory: 20,
+    predict: async (history: Candle[], horizon: number) => fastPredictStock(history, horizon),
+    forecast: async (history: Candle[], horizon: number) => fastPredictStock(history, horizon).forecast
+  },
+  fittedModel('holt-winters', 'Holt-Winters', 'Damped-trend exponential smoothing with a seasonal cycle, parameters chosen by AIC', 10,
+    holtWintersOutput),
+  fittedModel('arima', 'ARIMA', 'ARIMA(p,1,q) on log prices with orders up to 2 chosen by AIC', 30,
+    (prices, _, horizon) => arimaOutput(prices, horizon))
+];
+
+const ensembleModel = (members: Forecaster[]): Forecaster => ({
+  id: 'ensemble',
+  label: 'Ensemble',
+  description: `Blend of ${members.map(member => member.label).join(', ')}, weighted by inverse recent walk-forward error`,
+  // Scoring the members means a backtest per member, too slow for the main thread
+  runtime: 'worker',
+  minHistory: Math.min(...members.map(member => member.minHistory)),
+  predict: (history, horizon, options) => ensemblePredict(history, horizon, members, options),
+  forecast: (history, horizon, options) => ensembleForecast(history, horizon, members, options)
+});
+
+const NEURAL_FORECASTER = neuralModel('neural', 'Neural network (MLP)', 'log-return', 'next-bar log returns');
+
+export const FORECASTERS: Forecaster[] = [
+  ...CLOSED_FORM_FORECASTERS,
+  NEURAL_FORECASTER,
+  neuralModel('neural-level', 'Neural network (MLP, price level)', 'level', 'the scaled price level (bounded near the training range)'),
+  recurrentModel('lstm', 'LSTM'),
+  recurrentModel('gru', 'GRU'),
+  // The MLP joins the closed-form models, scored on fewer retrained folds
+  ensembleModel([...CLOSED_FORM_FORECASTERS, NEURAL_FORECASTER])
+];
+
+export const getForecaster = (id: ModelId): Forecaster => {
+  const forecaster = FORECASTERS.find(candidate => candidate.id === id);
+  if (!forecaster) {
+    throw new Error(`Unknown model "${id}"`);
+  }
+  return forecaster;
+};
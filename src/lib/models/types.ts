@@ -0,0 +1,38 @@
+import { Candle } from '../market-data';
+import { TrainingOptions } from '../ml-utils';
+import type { NeuralPredictionOptions, PredictionResult } from '../prediction';
+import type { TuningOptions, TuningResult } from '../tuning';
+
+export const MODEL_IDS = ['naive', 'drift', 'statistical', 'holt-winters', 'arima', 'neural', 'neural-level', 'lstm', 'gru', 'ensemble'] as const;
+export type ModelId = typeof MODEL_IDS[number];
+
+// A forecasting algorithm the UI, the API and the backtest can all drive the same way
+export interface Forecaster {
+  id: ModelId;
+  label: string;
+  description: string;
+  // Trained networks (and the ensemble) run in the training worker in the browser; the
+  // rest are cheap enough for the main thread
+  runtime: 'main' | 'worker';
+  // Fewest candles the model can be fitted on
+  minHistory: number;
+  // Full prediction: forecast path, intervals, fit over the history and confidence
+  predict(history: Candle[], horizon: number, options?: NeuralPredictionOptions): Promise<PredictionResult>;
+  // Point forecast only, for walk-forward backtests
+  forecast(history: Candle[], horizon: number, options?: TrainingOptions): Promise<number[]>;
+  // Hyperparameter search, for models that have hyperparameters worth tuning per symbol
+  tune?(history: Candle[], options?: TuningOptions): Promise<TuningResult>;
+}
+
+// What a model produces before it is turned into a PredictionResult
+export interface ModelOutput {
+  forecast: number[];
+  // One-step predictions aligned with the history (null where the model has none)
+  fitted: (number | null)[];
+  fitKind: 'in-sample' | 'out-of-sample';
+  // Overrides the model label when the fitted variant is worth naming, e.g. ARIMA(1,1,0)
+  label?: string;
+  // Simulated future paths (samples x horizon); without them the interval comes from
+  // bootstrapping the fit residuals around the point forecast
+  paths?: number[][];
+}
@@ -0,0 +1,446 @@
+import {
+  DEFAULT_HYPERPARAMETERS,
+  DEFAULT_TARGET_MODE,
+  ModelBundle,
+  NeuralHyperparameters,
+  TargetMode,
+  TrainingOptions,
+  calculateMSE,
+  calculateR2Score,
+  fineTuneModel,
+  getPredictionsForData,
+  predictHorizon,
+  processStockData,
+  sampleHorizonPaths,
+  trainLinearRegressionModel
+} from './ml-utils';
+import {
+  PredictionInterval,
+  bootstrapPaths,
+  intervalsFromPaths,
+  relativeResiduals,
+  replicatePath
+} from './intervals';
+import { BarInterval, Candle, Exchange, HistoryRange } from './market-data';
+import type { CacheInfo } from './cache/price-cache';
+import { ModelStore } from './model-store/types';
+import { MODEL_IDS, ModelId, ModelOutput } from './models/types';
+
+// Model output over the loaded history, aligned with the candles
+export interface HistoricalFit {
+  label: string;
+  // in-sample: the model saw these bars in training; out-of-sample: each point was
+  // forecast using only the bars before it
+  kind: 'in-sample' | 'out-of-sample';
+  values: (number | null)[];
+}
+
+export interface PredictionResult {
+  currentPrice: number;
+  predictedPrice: number;
+  confidence: number;
+  trend: 'up' | 'down' | 'stable';
+  change: number;
+  changePercent: number;
+  horizon: number;
+  forecast: number[];
+  intervals: PredictionInterval[];
+  historicalFit: HistoricalFit;
+  // Which model produced the result, and why the neural model was skipped if it was
+  model: ModelId;
+  fallbackReason?: string;
+  // How the neural model was obtained: trained from scratch, a saved model fine-tuned
+  // on the bars added since it was saved, or a saved model that was already current
+  training?: {
+    mode: 'trained' | 'fine-tuned' | 'reused';
+    // Bars the model had not been trained on before this run
+    newBars: number;
+    trainedAt: string;
+  };
+  // Ensemble results only: how each member was weighted and what it forecast
+  ensemble?: EnsembleMember[];
+}
+
+export interface EnsembleMember {
+  model: ModelId;
+  label: string;
+  weight: number;
+  // Recent walk-forward MAE averaged over the horizon; null if it couldn't be measured
+  backtestMae: number | null;
+  predictedPrice: number;
+  changePercent: number;
+  // This member's weighted share of the ensemble's predicted change (₹)
+  contribution: number;
+}
+
+export const MAX_HORIZON = 60;
+
+// Error metrics of a historical fit against the closes it was aligned with
+export interface FitMetrics {
+  kind: HistoricalFit['kind'];
+  samples: number;
+  r2: number;
+  mse: number;
+  rmse: number;
+  mae: number;
+  mape: number;
+}
+
+// Body of a successful /api/predict response
+export interface PredictApiResponse {
+  success: true;
+  symbol: string;
+  exchange: Exchange;
+  range: HistoryRange;
+  interval: BarInterval;
+  horizon: number;
+  source: string;
+  cache: CacheInfo;
+  lastDate: string;
+  // Bar dates the forecast steps fall on, skipping exchange holidays
+  forecastDates: string[];
+  generatedAt: string;
+  prediction: PredictionResult;
+  metrics: FitMetrics;
+}
+
+export interface NeuralPredictionOptions extends TrainingOptions {
+  // Where to look for (and save) a model trained on earlier data for the same key
+  store?: ModelStore;
+  modelKey?: string;
+}
+
+// A saved model absorbs at most this share of new bars by fine-tuning before a full retrain
+const MAX_FINETUNE_SHARE = 0.1;
+
+// Fast prediction function using statistical analysis
+export const fastPredictStock = (stockData: Candle[], horizon = 1): PredictionResult => {
+  if (stockData.length < 10) {
+    throw new Error('Insufficient data for prediction');
+  }
+
+  const prices = stockData.map(d => d.close);
+  const currentPrice = prices[prices.length - 1];
+  
+  // Calculate moving averages
+  const shortMA = prices.slice(-5).reduce((a, b) => a + b, 0) / 5;
+  const longMA = prices.slice(-20).reduce((a, b) => a + b, 0) / 20;
+  
+  // Calculate trend using linear regression over the last 10 points
+  const fitTrend = (series: number[]) => {
+    const recentPrices = series.slice(-10);
+    const n = recentPrices.length;
+    const x = Array.from({length: n}, (_, i) => i);
+    const sumX = x.reduce((a, b) => a + b, 0);
+    const sumY = recentPrices.reduce((a, b) => a + b, 0);
+    const sumXY = x.reduce((acc, xi, i) => acc + xi * recentPrices[i], 0);
+    const sumXX = x.reduce((acc, xi) => acc + xi * xi, 0);
+    
+    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+    const intercept = (sumY - slope * sumX) / n;
+    return { slope, next: slope * n + intercept };
+  };
+  
+  // Roll the regression forward, feeding each forecast back into the window
+  const { slope } = fitTrend(prices);
+  const extended = [...prices];
+  const forecast: number[] = [];
+  for (let step = 0; step < horizon; step++) {
+    const { next } = fitTrend(extended);
+    forecast.push(parseFloat(next.toFixed(2)));
+    extended.push(next);
+  }
+  const nextPrice = extended[extended.length - 1];
+  
+  // One-step errors of the same regression replayed over history drive the bands
+  const replayed = prices.slice(10).map((_, i) => fitTrend(prices.slice(0, i + 10)).next);
+  const residuals = relativeResiduals(prices.slice(10), replayed);
+  const intervals = intervalsFromPaths(bootstrapPaths(replicatePath(forecast), residuals));
+  const historicalFit: HistoricalFit = {
+    label: 'Statistical One-Step Forecast (out-of-sample)',
+    kind: 'out-of-sample',
+    values: [...Array(Math.min(10, prices.length)).fill(null), ...replayed.map(price => parseFloat(price.toFixed(2)))]
+  };
+  
+  // Calculate volatility
+  const returns = prices.slice(1).map((price, i) => (price - prices[i]) / prices[i]);
+  const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / returns.length;
+  const volatility = Math.sqrt(variance);
+  
+  const change = nextPrice - currentPrice;
+  const changePercent = (change / currentPrice) * 100;
+  
+  // Calculate confidence based on trend consistency and volatility
+  const trendStrength = Math.abs(slope);
+  const maConsistency = Math.abs(shortMA - longMA) / currentPrice;
+  const baseConfidence = Math.min(90, (trendStrength * 1000 + maConsistency * 100));
+  const volatilityPenalty = Math.min(30, volatility * 500);
+  const confidence = Math.max(45, Math.min(90, baseConfidence - volatilityPenalty));
+  
+  return {
+    currentPrice: parseFloat(currentPrice.toFixed(2)),
+    predictedPrice: parseFloat(nextPrice.toFixed(2)),
+    confidence: parseFloat(confidence.toFixed(1)),
+    trend: Math.abs(change) < currentPrice * 0.005 ? 'stable' : 
+           (change > 0 ? 'up' : 'down'),
+    change: parseFloat(change.toFixed(2)),
+    changePercent: parseFloat(changePercent.toFixed(2)),
+    horizon,
+    forecast,
+    intervals,
+    historicalFit,
+    model: 'statistical'
+  }
+};
+
+// Decide whether a saved bundle can be brought up to date on `candles`: it must predict
+// the requested target with the requested hyperparameters, its last bar must still be
+// in the window, not too many bars may have been added since, and for a level model the
+// new bars must stay within the price range it was trained on. Returns the number of
+// new bars, or null.
+const newBarsSinceSaved = (
+  bundle: ModelBundle,
+  candles: Candle[],
+  targetMode: TargetMode,
+  hyperparameters: NeuralHyperparameters
+): number | null => {
+  if (bundle.targetMode !== targetMode || JSON.stringify(bundle.hyperparameters) !== JSON.stringify(hyperparameters)) {
+    return null;
+  }
+  const dates = candles.map(candle => candle.date);
+  const seenIndex = bundle.metadata.lastDate ? dates.lastIndexOf(bundle.metadata.lastDate) : -1;
+  if (seenIndex < 0) {
+    return null;
+  }
+  const newBars = dates.length - 1 - seenIndex;
+  // A level model's target scaling spans the closes it was trained to predict
+  const { offset: low, scale } = bundle.targetScaling;
+  const high = low + scale;
+  const withinScaling = targetMode !== 'level' || candles.slice(seenIndex + 1).every(({ close }) => close >= low && close <= high);
+  const maxNewBars = Math.max(5, Math.floor(bundle.metadata.samples * MAX_FINETUNE_SHARE));
+  return withinScaling && newBars <= maxNewBars ? newBars : null;
+};
+
+// Reuse the model saved under `modelKey` when possible, otherwise train from scratch;
+// whatever is trained is saved back for the next session
+const obtainNeuralModel = async (
+  candles: Candle[],
+  { store, modelKey, ...options }: NeuralPredictionOptions
+): Promise<{ bundle: ModelBundle; training: NonNullable<PredictionResult['training']> }> => {
+  const lastDate = candles[candles.length - 1].date;
+  const saved = store && modelKey ? await store.load(modelKey).catch(() => null) : null;
+  const newBars = saved
+    ? newBarsSinceSaved(
+      saved,
+      candles,
+      options.targetMode ?? DEFAULT_TARGET_MODE,
+      options.hyperparameters ?? DEFAULT_HYPERPARAMETERS
+    )
+    : null;
+
+  let bundle: ModelBundle;
+  let mode: NonNullable<PredictionResult['training']>['mode'];
+  if (saved && newBars === 0) {
+    return { bundle: { ...saved, trainingCandles: candles }, training: { mode: 'reused', newBars: 0, trainedAt: saved.metadata.trainedAt } };
+  } else if (saved && newBars !== null) {
+    try {
+      bundle = await fineTuneModel(saved, candles, candles.length - 1 - newBars, options);
+    } catch (error) {
+      saved.model.dispose();
+      throw error;
+    }
+    mode = 'fine-tuned';
+  } else {
+    saved?.model.dispose();
+    bundle = await trainLinearRegressionModel(candles, options);
+    mode = 'trained';
+  }
+
+  bundle = { ...bundle, metadata: { ...bundle.metadata, lastDate } };
+  if (store && modelKey) {
+    // A failed save only costs a retrain next time
+    await store.save(modelKey, bundle).catch(error => console.warn(`Could not save model ${modelKey}:`, error));
+  }
+  return { bundle, training: { mode, newBars: newBars ?? candles.length, trainedAt: bundle.metadata.trainedAt } };
+};
+
+// Neural network prediction: trains the indicator-feature model on the full series (or
+// updates a saved one) and forecasts `horizon` steps with Monte Carlo dropout intervals
+export const neuralPredictStock = async (
+  stockData: Candle[],
+  horizon = 1,
+  options: NeuralPredictionOptions = {}
+): Promise<PredictionResult> => {
+  const processedData = processStockData(stockData);
+  const { bundle, training } = await obtainNeuralModel(processedData.candles, options);
+  
+  try {
+    const predictions = getPredictionsForData(bundle);
+    const forecast = predictHorizon(bundle, horizon);
+    
+    // Score the fit past the indicator warm-up
+    const fitted = processedData.prices
+      .map((price, i) => [price, predictions[i]] as const)
+      .filter((pair): pair is readonly [number, number] => pair[1] !== null);
+    const actual = fitted.map(([price]) => price);
+    const predicted = fitted.map(([, value]) => value);
+    
+    // Monte Carlo dropout paths capture model uncertainty; bootstrapped residuals add the noise
+    const dropoutPaths = sampleHorizonPaths(bundle, horizon, 200);
+    const residuals = relativeResiduals(actual, predicted);
+    const intervals = intervalsFromPaths(bootstrapPaths(dropoutPaths, residuals));
+    const nextPrice = forecast[forecast.length - 1];
+    
+    // Calculate metrics
+    const r2Score = calculateR2Score(actual, predicted);
+    const mse = calculateMSE(actual, predicted);
+    
+    const currentPrice = stockData[stockData.length - 1].close;
+    const change = nextPrice - currentPrice;
+    const changePercent = (change / currentPrice) * 100;
+    
+    // Enhanced confidence calculation
+    const baseConfidence = Math.max(0, Math.min(100, r2Score * 100));
+    const mseConfidence = Math.max(0, 100 - (mse / currentPrice) * 100);
+    const volatility = calculateVolatility(processedData.prices);
+    const volatilityPenalty = Math.min(20, volatility * 10);
+    
+    const confidence = Math.max(40, Math.min(95, 
+      (baseConfidence * 0.6) + (mseConfidence * 0.4) - volatilityPenalty
+    ));
+    
+    return {
+      currentPrice: parseFloat(currentPrice.toFixed(2)),
+      predictedPrice: parseFloat(nextPrice.toFixed(2)),
+      confidence: parseFloat(confidence.toFixed(1)),
+      trend: Math.abs(change) < currentPrice * 0.005 ? 'stable' : 
+             (change > 0 ? 'up' : 'down'),
+      change: parseFloat(change.toFixed(2)),
+      changePercent: parseFloat(changePercent.toFixed(2)),
+      horizon,
+      forecast: forecast.map(price => parseFloat(price.toFixed(2))),
+      intervals,
+      historicalFit: {
+        label: 'Neural Network Fit (in-sample)',
+        kind: 'in-sample',
+        values: predictions.map(price => (price === null ? null : parseFloat(price.toFixed(2))))
+      },
+      model: 'neural',
+      training
+    };
+  } finally {
+    bundle.model.dispose();
+  }
+};
+
+// Train the neural model on the given history and forecast `horizon` steps
+export const neuralForecast = async (history: Candle[], horizon: number, options: TrainingOptions = {}): Promise<number[]> => {
+  const processedData = processStockData(history);
+  const bundle = await trainLinearRegressionModel(processedData.candles, options);
+  try {
+    return predictHorizon(bundle, horizon);
+  } finally {
+    bundle.model.dispose();
+  }
+};
+
+// Turn a model's forecast and one-step fit into a full prediction. Intervals come from
+// the model's sample paths (or its point forecast) perturbed by bootstrapped fit residuals;
+// confidence blends the fit's R² and MAPE, less a volatility penalty.
+export const buildPrediction = (
+  stockData: Candle[],
+  horizon: number,
+  model: ModelId,
+  label: string,
+  output: ModelOutput
+): PredictionResult => {
+  const { prices } = processStockData(stockData);
+  const fittedPairs = output.fitted
+    .map((value, i) => [prices[i], value] as const)
+    .filter((pair): pair is readonly [number, number] => pair[1] !== null && isFinite(pair[1]));
+  const residuals = relativeResiduals(fittedPairs.map(([price]) => price), fittedPairs.map(([, value]) => value));
+  const intervals = intervalsFromPaths(bootstrapPaths(output.paths ?? replicatePath(output.forecast), residuals));
+
+  const historicalFit: HistoricalFit = {
+    label: `${output.label ?? label} ${output.fitKind === 'in-sample' ? 'Fit (in-sample)' : 'One-Step Forecast (out-of-sample)'}`,
+    kind: output.fitKind,
+    values: output.fitted.map(value => (value === null || !isFinite(value) ? null : parseFloat(value.toFixed(2))))
+  };
+  const metrics = evaluateFit(stockData, historicalFit);
+
+  const currentPrice = prices[prices.length - 1];
+  const nextPrice = output.forecast[output.forecast.length - 1];
+  const change = nextPrice - currentPrice;
+  const changePercent = (change / currentPrice) * 100;
+
+  const fitConfidence = Math.max(0, Math.min(100, (isFinite(metrics.r2) ? metrics.r2 : 0) * 100));
+  const accuracyConfidence = Math.max(0, 100 - (isFinite(metrics.mape) ? metrics.mape : 100) * 10);
+  const volatilityPenalty = Math.min(20, calculateVolatility(prices) * 10);
+  const confidence = Math.max(40, Math.min(95,
+    (fitConfidence * 0.6) + (accuracyConfidence * 0.4) - volatilityPenalty
+  ));
+
+  return {
+    currentPrice: parseFloat(currentPrice.toFixed(2)),
+    predictedPrice: parseFloat(nextPrice.toFixed(2)),
+    confidence: parseFloat(confidence.toFixed(1)),
+    trend: Math.abs(change) < currentPrice * 0.005 ? 'stable' :
+           (change > 0 ? 'up' : 'down'),
+    change: parseFloat(change.toFixed(2)),
+    changePercent: parseFloat(changePercent.toFixed(2)),
+    horizon,
+    forecast: output.forecast.map(price => parseFloat(price.toFixed(2))),
+    intervals,
+    historicalFit,
+    model
+  };
+};
+
+// Helper function to calculate volatility
+export const calculateVolatility = (prices: number[]): number => {
+  if (prices.length < 2) return 0;
+  const returns = prices.slice(1).map((price, i) => (price - prices[i]) / prices[i]);
+  const meanReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
+  const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - meanReturn, 2), 0) / returns.length;
+  return Math.sqrt(variance);
+};
+
+// Validate raw horizon/model query parameters, filling in defaults
+export const parsePredictionParams = (
+  rawHorizon: string | null,
+  rawModel: string | null
+): { horizon: number; model: ModelId } | { error: string } => {
+  const horizon = rawHorizon === null || rawHorizon === '' ? 1 : Number(rawHorizon);
+  const model = (rawModel || 'neural') as ModelId;
+
+  if (!Number.isInteger(horizon) || horizon < 1 || horizon > MAX_HORIZON) {
+    return { error: `Invalid horizon "${rawHorizon}". Expected a whole number of bars from 1 to ${MAX_HORIZON}` };
+  }
+  if (!MODEL_IDS.includes(model)) {
+    return { error: `Invalid model "${rawModel}". Expected one of: ${MODEL_IDS.join(', ')}` };
+  }
+
+  return { horizon, model };
+};
+
+// Score a historical fit on the bars where it has a value
+export const evaluateFit = (candles: Candle[], fit: HistoricalFit): FitMetrics => {
+  const pairs = candles
+    .map((candle, i) => [candle.close, fit.values[i]] as const)
+    .filter((pair): pair is readonly [number, number] => pair[1] !== null && pair[1] !== undefined);
+  const actual = pairs.map(([close]) => close);
+  const predicted = pairs.map(([, value]) => value);
+  const mse = actual.length > 0 ? calculateMSE(actual, predicted) : NaN;
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    kind: fit.kind,
+    samples: pairs.length,
+    r2: actual.length > 0 ? calculateR2Score(actual, predicted) : NaN,
+    mse,
+    rmse: Math.sqrt(mse),
+    mae: sum(actual.map((close, i) => Math.abs(close - predicted[i]))) / actual.length,
+    mape: (sum(actual.map((close, i) => Math.abs((close - predicted[i]) / close))) / actual.length) * 100
+  };
+};
@@ -0,0 +1,94 @@
+import { Candle, Exchange, isIntraday, RANGE_DAYS, resampleCandles } from '../market-data';
+import { istInstant, REGULAR_SESSION, sessionOn } from '../trading-calendar';
+import { MarketDataProvider, MarketDataRequest } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// FNV-1a hash, used to derive a stable seed per symbol
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 PRNG: small, fast and reproducible across platforms
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample via Box-Muller
+const gaussian = (random: () => number): number => {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Bar timestamps for the trading sessions between start and end (inclusive)
+const barTimes = (start: Date, end: Date, stepMinutes: number | null, exchange: Exchange): string[] => {
+  const times: string[] = [];
+  for (let day = start.getTime(); day <= end.getTime(); day += DAY_MS) {
+    const date = new Date(day).toISOString().split('T')[0];
+    const session = sessionOn(date, exchange);
+    if (!session) {
+      continue;
+    }
+    if (stepMinutes === null) {
+      times.push(date);
+      continue;
+    }
+    for (let minute = session.open; minute < session.close; minute += stepMinutes) {
+      times.push(`${istInstant(date, minute).toISOString().slice(0, 16)}Z`);
+    }
+  }
+  return times;
+};
+
+// Deterministic synthetic OHLCV series: the same symbol always yields the same
+// candles, which keeps offline development and CI runs reproducible.
+export const createFixtureProvider = (endDate = process.env.FIXTURE_END_DATE || '2025-06-30'): MarketDataProvider => ({
+  name: 'fixture',
+
+  async fetchCandles({ symbol, exchange, range, interval }: MarketDataRequest) {
+    const end = new Date(`${endDate}T00:00:00Z`);
+    const spanDays = range === 'ytd'
+      ? Math.round((end.getTime() - Date.UTC(end.getUTCFullYear(), 0, 1)) / DAY_MS)
+      : Math.min(RANGE_DAYS[range], RANGE_DAYS['10y']);
+    const start = new Date(end.getTime() - spanDays * DAY_MS);
+    const stepMinutes = isIntraday(interval) ? (interval === '5m' ? 5 : interval === '15m' ? 15 : 60) : null;
+
+    const random = createRandom(hashString(`${symbol.toUpperCase()}.${exchange}`));
+    const barsPerDay = stepMinutes === null ? 1 : Math.ceil((REGULAR_SESSION.close - REGULAR_SESSION.open) / stepMinutes);
+    const drift = (random() - 0.45) * 0.001 / barsPerDay;
+    const volatility = (0.01 + random() * 0.015) / Math.sqrt(barsPerDay);
+    const baseVolume = Math.round((2e5 + random() * 5e6) / barsPerDay);
+    let price = 100 + random() * 2900;
+
+    const candles: Candle[] = barTimes(start, end, stepMinutes, exchange).map(date => {
+      const open = price;
+      const close = Math.max(1, open * Math.exp(drift + volatility * gaussian(random)));
+      const high = Math.max(open, close) * (1 + Math.abs(gaussian(random)) * volatility * 0.5);
+      const low = Math.min(open, close) * (1 - Math.abs(gaussian(random)) * volatility * 0.5);
+      price = close;
+
+      return {
+        date,
+        open: parseFloat(open.toFixed(2)),
+        high: parseFloat(high.toFixed(2)),
+        low: parseFloat(low.toFixed(2)),
+        close: parseFloat(close.toFixed(2)),
+        adjClose: parseFloat(close.toFixed(2)),
+        volume: Math.round(baseVolume * (0.5 + random()))
+      };
+    });
+
+    return { candles: resampleCandles(candles, interval) };
+  }
+});
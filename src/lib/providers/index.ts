@@ -0,0 +1,64 @@
+import { applyCorporateActions, CorporateAdjustment, loadManualActions, mergeActions } from '../corporate-actions';
+import { DataQualityReport, validateSeries } from '../data-quality';
+import { Candle } from '../market-data';
+import { createFixtureProvider } from './fixture';
+import { createLocalProvider } from './local';
+import { MarketDataProvider, MarketDataRequest } from './types';
+import { createYahooProvider } from './yahoo';
+
+export type { MarketDataProvider, MarketDataRequest, ProviderSeries } from './types';
+
+const PROVIDER_FACTORIES: Record<string, () => MarketDataProvider> = {
+  yahoo: createYahooProvider,
+  local: createLocalProvider,
+  fixture: createFixtureProvider
+};
+
+const DEFAULT_PROVIDERS = 'yahoo';
+
+// Build the ordered provider chain from MARKET_DATA_PROVIDERS, e.g. "yahoo,local,fixture"
+export const getProviderChain = (config = process.env.MARKET_DATA_PROVIDERS || DEFAULT_PROVIDERS): MarketDataProvider[] => {
+  const names = config.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const chain: MarketDataProvider[] = [];
+
+  for (const name of names) {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`Unknown market data provider "${name}", skipping`);
+      continue;
+    }
+    chain.push(factory());
+  }
+
+  return chain;
+};
+
+// Ask each provider in turn and return the first non-empty series, back-adjusted for
+// the corporate actions the provider reported and those in the manual adjustments file,
+// then validated (see validateSeries)
+export const fetchWithFallback = async (
+  request: MarketDataRequest,
+  chain: MarketDataProvider[] = getProviderChain()
+): Promise<{ candles: Candle[]; source: string; adjustments: CorporateAdjustment[]; dataQuality: DataQualityReport } | null> => {
+  for (const provider of chain) {
+    try {
+      const series = await provider.fetchCandles(request);
+      if (series && series.candles.length > 0) {
+        const manual = await loadManualActions(request.symbol, request.exchange);
+        const actions = mergeActions(series.actions ?? [], manual);
+        const adjusted = applyCorporateActions(series.candles, actions);
+        const { candles, report } = validateSeries(adjusted.candles, {
+          interval: request.interval,
+          exchange: request.exchange,
+          actions,
+          dropped: series.dropped
+        });
+        return { candles, source: provider.name, adjustments: adjusted.adjustments, dataQuality: report };
+      }
+    } catch (error) {
+      console.warn(`Market data provider "${provider.name}" failed:`, error);
+    }
+  }
+
+  return null;
+};
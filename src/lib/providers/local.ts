@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseCsvRecords } from '../csv';
+import { Candle, isIntraday, resampleCandles, sliceToRange } from '../market-data';
+import { MarketDataProvider, MarketDataRequest, MIN_CANDLES } from './types';
+
+const MONTHS: Record<string, string> = {
+  JAN: '01', FEB: '02', MAR: '03', APR: '04', MAY: '05', JUN: '06',
+  JUL: '07', AUG: '08', SEP: '09', OCT: '10', NOV: '11', DEC: '12'
+};
+
+// Normalize the date formats found in exchange files to YYYY-MM-DD
+const parseDate = (value: string): string | null => {
+  const trimmed = value.trim();
+
+  // 2024-01-31 or 2024-01-31T...
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    return trimmed.slice(0, 10);
+  }
+
+  // 31-JAN-2024 or 31-Jan-2024 (bhavcopy TIMESTAMP)
+  const named = trimmed.match(/^(\d{1,2})[-\s]([A-Za-z]{3})[-\s](\d{4})$/);
+  if (named && MONTHS[named[2].toUpperCase()]) {
+    return `${named[3]}-${MONTHS[named[2].toUpperCase()]}-${named[1].padStart(2, '0')}`;
+  }
+
+  // 31/01/2024 or 31-01-2024
+  const numeric = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (numeric) {
+    return `${numeric[3]}-${numeric[2].padStart(2, '0')}-${numeric[1].padStart(2, '0')}`;
+  }
+
+  return null;
+};
+
+// First non-empty column among the aliases used by NSE, BSE and Yahoo exports
+const pick = (record: Record<string, string>, keys: string[]): string | undefined =>
+  keys.map(key => record[key]).find(value => value !== undefined && value !== '');
+
+const DATE_KEYS = ['TIMESTAMP', 'DATE', 'TRADE_DATE', 'TRADDT', 'DATE1'];
+const SYMBOL_KEYS = ['SYMBOL', 'TCKRSYMB', 'SC_NAME', 'SC_CODE', 'FININSTRMID'];
+const SERIES_KEYS = ['SERIES', 'SCTYSRS', 'SC_TYPE'];
+
+// Convert one CSV/JSON record into a candle, or null when it isn't usable
+const toCandle = (record: Record<string, string>, fallbackDate?: string): Candle | null => {
+  const rawDate = pick(record, DATE_KEYS);
+  const date = rawDate ? parseDate(rawDate) : fallbackDate ?? null;
+  const close = parseFloat(pick(record, ['CLOSE', 'CLSPRIC', 'CLOSE_PRICE']) ?? '');
+
+  if (!date || isNaN(close) || close <= 0) {
+    return null;
+  }
+
+  const number = (keys: string[], fallback: number): number => {
+    const value = parseFloat((pick(record, keys) ?? '').replace(/,/g, ''));
+    return isNaN(value) ? fallback : value;
+  };
+
+  return {
+    date,
+    open: number(['OPEN', 'OPNPRIC', 'OPEN_PRICE'], close),
+    high: number(['HIGH', 'HGHPRIC', 'HIGH_PRICE'], close),
+    low: number(['LOW', 'LWPRIC', 'LOW_PRICE'], close),
+    close,
+    adjClose: number(['ADJ CLOSE', 'ADJCLOSE', 'ADJ_CLOSE'], close),
+    volume: number(['VOLUME', 'TOTTRDQTY', 'TTLTRADGVOL', 'NO_OF_SHRS', 'TTL_TRD_QNTY'], 0)
+  };
+};
+
+// Bhavcopy files are named after their trading day, e.g. cm31JAN2024bhav.csv
+const dateFromFileName = (fileName: string): string | undefined => {
+  const match = fileName.match(/(\d{2})([A-Z]{3})(\d{4})/i);
+  return match ? parseDate(`${match[1]}-${match[2]}-${match[3]}`) ?? undefined : undefined;
+};
+
+const readRecords = async (filePath: string): Promise<Record<string, string>[]> => {
+  const text = await fs.readFile(filePath, 'utf8');
+
+  if (filePath.endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    const rows: unknown[] = Array.isArray(parsed) ? parsed : parsed?.candles ?? parsed?.stockData ?? [];
+    return rows.map(row => {
+      const record: Record<string, string> = {};
+      Object.entries(row as Record<string, unknown>).forEach(([key, value]) => {
+        record[key.trim().toUpperCase()] = String(value ?? '');
+      });
+      return record;
+    });
+  }
+
+  return parseCsvRecords(text);
+};
+
+// Directories to search: an exchange-specific subfolder first, then the root
+const candidateDirs = async (root: string, exchange: string): Promise<string[]> => {
+  const dirs: string[] = [];
+  for (const dir of [path.join(root, exchange.toLowerCase()), root]) {
+    try {
+      if ((await fs.stat(dir)).isDirectory()) {
+        dirs.push(dir);
+      }
+    } catch {
+      // Missing directories are simply skipped
+    }
+  }
+  return dirs;
+};
+
+const loadCandles = async (root: string, symbol: string, exchange: string): Promise<Candle[]> => {
+  for (const dir of await candidateDirs(root, exchange)) {
+    const files = await fs.readdir(dir);
+
+    // Per-symbol history file: RELIANCE.csv, RELIANCE.NSE.json, ...
+    const symbolFile = files.find(file =>
+      [`${symbol}.csv`, `${symbol}.json`, `${symbol}.${exchange}.csv`, `${symbol}.${exchange}.json`]
+        .some(name => name.toUpperCase() === file.toUpperCase())
+    );
+    if (symbolFile) {
+      const records = await readRecords(path.join(dir, symbolFile));
+      return records.map(record => toCandle(record)).filter((candle): candle is Candle => candle !== null);
+    }
+
+    // Otherwise treat every CSV as a daily bhavcopy covering all symbols
+    const candles: Candle[] = [];
+    for (const file of files.filter(name => name.toLowerCase().endsWith('.csv'))) {
+      const records = await readRecords(path.join(dir, file));
+      for (const record of records) {
+        const recordSymbol = pick(record, SYMBOL_KEYS)?.toUpperCase();
+        const series = pick(record, SERIES_KEYS)?.toUpperCase();
+        if (recordSymbol !== symbol || (series && series !== 'EQ' && series !== 'A' && series !== 'B')) {
+          continue;
+        }
+        const candle = toCandle(record, dateFromFileName(file));
+        if (candle) {
+          candles.push(candle);
+        }
+      }
+    }
+    if (candles.length > 0) {
+      return candles;
+    }
+  }
+
+  return [];
+};
+
+// Reads end-of-day history from CSV/JSON files on disk (LOCAL_DATA_DIR)
+export const createLocalProvider = (root = process.env.LOCAL_DATA_DIR || path.join(process.cwd(), 'data', 'market')): MarketDataProvider => ({
+  name: 'local',
+
+  async fetchCandles({ symbol, exchange, range, interval }: MarketDataRequest) {
+    // Local files only hold end-of-day bars
+    if (isIntraday(interval)) {
+      return null;
+    }
+
+    try {
+      const candles = await loadCandles(root, symbol.toUpperCase(), exchange);
+
+      // Sort and drop duplicate days, keeping the last record seen
+      const byDate = new Map(candles.map(candle => [candle.date, candle]));
+      const sorted = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+      const series = resampleCandles(sliceToRange(sorted, range), interval);
+
+      return series.length >= MIN_CANDLES ? { candles: series } : null;
+    } catch {
+      return null;
+    }
+  }
+});
@@ -0,0 +1,27 @@
+import { CorporateAction } from '../corporate-actions';
+import { BarInterval, Candle, Exchange, HistoryRange } from '../market-data';
+
+export interface MarketDataRequest {
+  symbol: string;
+  exchange: Exchange;
+  range: HistoryRange;
+  interval: BarInterval;
+}
+
+// Candles as the source delivers them, plus any corporate actions it reports alongside
+export interface ProviderSeries {
+  candles: Candle[];
+  actions?: CorporateAction[];
+  // Dates of bars the source listed without a close and were left out
+  dropped?: string[];
+}
+
+// A source of OHLCV history. Providers return null when they have no data for
+// the request so the chain can move on to the next one.
+export interface MarketDataProvider {
+  name: string;
+  fetchCandles(request: MarketDataRequest): Promise<ProviderSeries | null>;
+}
+
+// Below this many candles a series is treated as missing
+export const MIN_CANDLES = 21;
@@ -0,0 +1,112 @@
+import axios from 'axios';
+import { CorporateAction } from '../corporate-actions';
+import { BarInterval, Candle, HistoryRange, isIntraday } from '../market-data';
+import { istDate } from '../trading-calendar';
+import { MarketDataProvider, MarketDataRequest, MIN_CANDLES, ProviderSeries } from './types';
+
+// Round a raw quote value to paise, treating null/NaN as missing
+const toPrice = (value: number | null | undefined): number | null => {
+  if (value === null || value === undefined || isNaN(value)) {
+    return null;
+  }
+  return parseFloat(value.toFixed(2));
+};
+
+// Yahoo spells the hourly interval as minutes
+const toYahooInterval = (interval: BarInterval): string => interval === '1h' ? '60m' : interval;
+
+// Intraday bars keep their UTC timestamp, daily and coarser bars only the IST trading date
+const formatBarDate = (timestamp: number, interval: BarInterval): string =>
+  isIntraday(interval) ? `${new Date(timestamp * 1000).toISOString().slice(0, 16)}Z` : istDate(timestamp * 1000);
+
+interface YahooEvents {
+  dividends?: Record<string, { date: number; amount: number }>;
+  splits?: Record<string, { date: number; numerator: number; denominator: number }>;
+}
+
+// Dividends and splits from the chart response's events block. Yahoo reports bonus
+// issues as splits (a 1:1 bonus is a 2:1 split).
+const toCorporateActions = (events: YahooEvents | undefined): CorporateAction[] => {
+  const exDate = (timestamp: number) => istDate(timestamp * 1000);
+  const dividends = Object.values(events?.dividends ?? {})
+    .filter(event => event.amount > 0)
+    .map((event): CorporateAction => ({ date: exDate(event.date), type: 'dividend', ratio: 1, amount: event.amount, source: 'yahoo' }));
+  const splits = Object.values(events?.splits ?? {})
+    .filter(event => event.numerator > 0 && event.denominator > 0)
+    .map((event): CorporateAction => ({
+      date: exDate(event.date),
+      type: 'split',
+      ratio: event.numerator / event.denominator,
+      amount: 0,
+      source: 'yahoo'
+    }));
+  return [...dividends, ...splits];
+};
+
+// Fetch data from Yahoo Finance API using chart endpoint
+async function fetchFromYahooFinance(symbol: string, range: HistoryRange, interval: BarInterval): Promise<ProviderSeries | null> {
+  try {
+    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=${range}&interval=${toYahooInterval(interval)}` +
+      '&events=div,splits&includeAdjustedClose=true';
+
+    const response = await axios.get(url, {
+      timeout: 8000,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'application/json'
+      }
+    });
+
+    if (response.data?.chart?.result?.[0]) {
+      const result = response.data.chart.result[0];
+      const timestamps = result.timestamp;
+      const quote = result.indicators?.quote?.[0];
+      const adjCloses = result.indicators?.adjclose?.[0]?.adjclose;
+      const closes = quote?.close;
+
+      if (timestamps && closes && timestamps.length === closes.length) {
+        const candles: Candle[] = [];
+        const dropped: string[] = [];
+
+        for (let i = 0; i < timestamps.length; i++) {
+          const close = toPrice(closes[i]);
+          if (close === null) {
+            dropped.push(formatBarDate(timestamps[i], interval));
+            continue;
+          }
+
+          // Missing open/high/low fall back to the close so every bar stays well-formed
+          const open = toPrice(quote.open?.[i]) ?? close;
+          const high = toPrice(quote.high?.[i]) ?? Math.max(open, close);
+          const low = toPrice(quote.low?.[i]) ?? Math.min(open, close);
+
+          candles.push({
+            date: formatBarDate(timestamps[i], interval),
+            open,
+            high,
+            low,
+            close,
+            adjClose: toPrice(adjCloses?.[i]) ?? close,
+            volume: quote.volume?.[i] ?? 0
+          });
+        }
+
+        return candles.length >= MIN_CANDLES ? { candles, actions: toCorporateActions(result.events), dropped } : null;
+      }
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export const createYahooProvider = (): MarketDataProvider => ({
+  name: 'yahoo',
+
+  // Symbols arrive resolved (see lib/symbols), so the exchange suffix Yahoo expects is
+  // the only format worth a request
+  async fetchCandles({ symbol, exchange, range, interval }: MarketDataRequest) {
+    return fetchFromYahooFinance(`${symbol}.${exchange === 'NSE' ? 'NS' : 'BO'}`, range, interval);
+  }
+});
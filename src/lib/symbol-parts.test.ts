@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseExchangeParts } from './symbol-parts';
+
+describe('parseExchangeParts', () => {
+  it.each([
+    ['RELIANCE', { body: 'RELIANCE', exchange: null }],
+    ['RELIANCE.NS', { body: 'RELIANCE', exchange: 'NSE' }],
+    ['NSE:RELIANCE', { body: 'RELIANCE', exchange: 'NSE' }],
+    ['BSE:500325', { body: '500325', exchange: 'BSE' }],
+    ['NSE:RELIANCE.NSE', { body: 'RELIANCE', exchange: 'NSE' }],
+    ['BAJAJ-AUTO.BO', { body: 'BAJAJ-AUTO', exchange: 'BSE' }]
+  ])('splits %s', (input, expected) => {
+    expect(parseExchangeParts(input)).toEqual(expected);
+  });
+
+  it('drops a repeated suffix that agrees with the first', () => {
+    expect(parseExchangeParts('RELIANCE.NS.NSE')).toEqual({ body: 'RELIANCE', exchange: 'NSE' });
+    expect(parseExchangeParts('BSE:500325.BO.BSE')).toEqual({ body: '500325', exchange: 'BSE' });
+  });
+
+  it.each(['RELIANCE.NS.BSE', 'BSE:500325.NSE', 'NSE:TCS.BO'])('rejects %s for naming two exchanges', input => {
+    expect(parseExchangeParts(input)).toMatchObject({ code: 'conflicting-exchange' });
+  });
+
+  it('rejects an unknown prefix', () => {
+    expect(parseExchangeParts('LSE:VOD')).toMatchObject({ code: 'unknown-exchange' });
+  });
+});
@@ -0,0 +1,54 @@
+import { Exchange } from './market-data';
+
+export interface SymbolError {
+  error: string;
+  code: 'missing-symbol' | 'invalid-symbol' | 'unknown-exchange' | 'conflicting-exchange' | 'unknown-scrip-code';
+}
+
+// Exchange spellings in prefixes (NSE:TCS), suffixes (TCS.NS) and the exchange parameter
+export const EXCHANGE_ALIASES: Record<string, Exchange> = {
+  NSE: 'NSE',
+  NS: 'NSE',
+  BSE: 'BSE',
+  BO: 'BSE'
+};
+
+// NSE tickers: letters and digits, plus the &, - and _ some symbols carry (M&M, BAJAJ-AUTO)
+export const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9&_-]{0,19}$/;
+export const SCRIP_CODE_PATTERN = /^\d{6}$/;
+
+export interface ParsedSymbol {
+  body: string;
+  exchange: Exchange | null;
+}
+
+// Split off an exchange prefix or suffix; both may be given as long as they agree.
+// Free of the instrument master, so the page can tell whether input names its exchange.
+export const parseExchangeParts = (input: string): ParsedSymbol | SymbolError => {
+  let body = input;
+  let exchange: Exchange | null = null;
+
+  const prefix = body.match(/^([A-Z]+):(.*)$/);
+  if (prefix) {
+    exchange = EXCHANGE_ALIASES[prefix[1]] ?? null;
+    if (!exchange) {
+      return { error: `Unknown exchange prefix "${prefix[1]}:". Expected NSE: or BSE:`, code: 'unknown-exchange' };
+    }
+    body = prefix[2];
+  }
+
+  // Repeated suffixes that agree (RELIANCE.NS.NSE) are redundant and dropped
+  for (let dot = body.lastIndexOf('.'); dot > 0; dot = body.lastIndexOf('.')) {
+    const suffixExchange = EXCHANGE_ALIASES[body.slice(dot + 1)];
+    if (!suffixExchange) {
+      break;
+    }
+    if (exchange && exchange !== suffixExchange) {
+      return { error: `"${input}" names both ${exchange} and ${suffixExchange}`, code: 'conflicting-exchange' };
+    }
+    exchange = suffixExchange;
+    body = body.slice(0, dot);
+  }
+
+  return { body, exchange };
+};
@@ -0,0 +1,73 @@
+import { Instrument, loadInstruments } from './instruments';
+import { Exchange } from './market-data';
+import { EXCHANGE_ALIASES, SCRIP_CODE_PATTERN, SymbolError, TICKER_PATTERN, parseExchangeParts } from './symbol-parts';
+
+export type { SymbolError } from './symbol-parts';
+
+// A request symbol resolved to the ticker and exchange the providers are asked for
+export interface ResolvedSymbol {
+  symbol: string;
+  exchange: Exchange;
+  // Set when the input was a BSE scrip code or the ticker is in the instrument master
+  bseCode: string | null;
+  instrument: Instrument | null;
+}
+
+// Forms accepted by resolveSymbol, echoed in 400 responses
+export const SYMBOL_EXAMPLES = ['RELIANCE', 'RELIANCE.NS', 'RELIANCE.BO', 'NSE:RELIANCE', 'BSE:500325', '500325'];
+
+// Resolve user input such as "TCS", "tcs.ns", "BSE:TCS", "NSE:M&M" or the BSE scrip code
+// "532540" to a ticker and exchange. `rawExchange` (the exchange parameter) applies when
+// the symbol itself names none. Tickers containing other dots are only accepted when the
+// instrument master knows them; everything else malformed is rejected without a fetch.
+export const resolveSymbol = async (
+  rawSymbol: string | null,
+  rawExchange: string | null = null
+): Promise<ResolvedSymbol | SymbolError> => {
+  const input = (rawSymbol ?? '').trim().toUpperCase();
+  if (!input) {
+    return { error: 'Missing "symbol" parameter', code: 'missing-symbol' };
+  }
+
+  const paramExchange = rawExchange ? EXCHANGE_ALIASES[rawExchange.trim().toUpperCase()] : null;
+  if (rawExchange && !paramExchange) {
+    return { error: `Invalid exchange "${rawExchange}". Expected NSE or BSE`, code: 'unknown-exchange' };
+  }
+
+  const parsed = parseExchangeParts(input);
+  if ('error' in parsed) {
+    return parsed;
+  }
+  if (parsed.exchange && paramExchange && parsed.exchange !== paramExchange) {
+    return {
+      error: `"${rawSymbol}" names ${parsed.exchange} but exchange=${paramExchange} was requested`,
+      code: 'conflicting-exchange'
+    };
+  }
+
+  const instruments = await loadInstruments();
+  const explicitExchange = parsed.exchange ?? paramExchange;
+
+  // BSE scrip codes map to the company's ticker, which both exchanges' data accepts, and
+  // default to BSE; codes missing from the master can still be fetched from BSE as they are
+  if (SCRIP_CODE_PATTERN.test(parsed.body)) {
+    const instrument = instruments.find(candidate => candidate.bseCode === parsed.body) ?? null;
+    if (instrument) {
+      return { symbol: instrument.symbol, exchange: explicitExchange ?? 'BSE', bseCode: parsed.body, instrument };
+    }
+    if (explicitExchange === 'NSE') {
+      return { error: `Unknown BSE scrip code ${parsed.body}; scrip codes can only be used on BSE`, code: 'unknown-scrip-code' };
+    }
+    return { symbol: parsed.body, exchange: 'BSE', bseCode: parsed.body, instrument: null };
+  }
+
+  const instrument = instruments.find(candidate => candidate.symbol === parsed.body) ?? null;
+  if (!instrument && !TICKER_PATTERN.test(parsed.body)) {
+    const dot = parsed.body.lastIndexOf('.');
+    return dot > 0
+      ? { error: `Unknown exchange suffix ".${parsed.body.slice(dot + 1)}". Use .NS/.NSE or .BO/.BSE`, code: 'unknown-exchange' }
+      : { error: `"${rawSymbol}" is not a valid ticker`, code: 'invalid-symbol' };
+  }
+
+  return { symbol: parsed.body, exchange: explicitExchange ?? 'NSE', bseCode: instrument?.bseCode ?? null, instrument };
+};
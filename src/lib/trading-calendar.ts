@@ -0,0 +1,194 @@
+import calendar2024 from '../../data/calendar/2024.json';
+import calendar2025 from '../../data/calendar/2025.json';
+import calendar2026 from '../../data/calendar/2026.json';
+import { BarInterval, Exchange, isIntraday } from './market-data';
+
+// NSE/BSE trading days and session hours. Holidays and special sessions (Muhurat trading
+// on Diwali, weekend sessions) come from the bundled per-year files in data/calendar;
+// years without a file fall back to plain weekdays. All dates are IST calendar dates.
+
+interface CalendarEntry {
+  date: string;
+  name: string;
+  // Exchanges the entry applies to; both when omitted
+  exchanges?: Exchange[];
+}
+
+interface SpecialSessionEntry extends CalendarEntry {
+  // IST wall-clock times, "HH:MM"
+  open: string;
+  close: string;
+}
+
+interface CalendarYear {
+  year: number;
+  holidays: CalendarEntry[];
+  specialSessions: SpecialSessionEntry[];
+}
+
+// A trading session on one date, in minutes after midnight IST
+export interface MarketSession {
+  date: string;
+  open: number;
+  close: number;
+  // Name of a special session, e.g. "Muhurat Trading"
+  special: string | null;
+}
+
+// Add a year by dropping its exchange circular into data/calendar and listing it here
+const CALENDAR_YEARS = [calendar2024, calendar2025, calendar2026] as CalendarYear[];
+
+export const IST_OFFSET_MINUTES = 5 * 60 + 30;
+// Regular cash session: 09:15–15:30 IST
+export const REGULAR_SESSION = { open: 9 * 60 + 15, close: 15 * 60 + 30 };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const appliesTo = (entry: CalendarEntry, exchange: Exchange): boolean =>
+  !entry.exchanges || entry.exchanges.includes(exchange);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const holidays = new Map<string, CalendarEntry[]>();
+const specialSessions = new Map<string, SpecialSessionEntry[]>();
+for (const year of CALENDAR_YEARS) {
+  for (const entry of year.holidays) {
+    holidays.set(entry.date, [...(holidays.get(entry.date) ?? []), entry]);
+  }
+  for (const entry of year.specialSessions) {
+    specialSessions.set(entry.date, [...(specialSessions.get(entry.date) ?? []), entry]);
+  }
+}
+
+// The IST calendar date of an instant, YYYY-MM-DD
+export const istDate = (instant: Date | number): string =>
+  new Date(new Date(instant).getTime() + IST_OFFSET_MINUTES * MINUTE_MS).toISOString().slice(0, 10);
+
+// Minutes after midnight IST of an instant
+export const istMinutes = (instant: Date | number): number => {
+  const shifted = new Date(new Date(instant).getTime() + IST_OFFSET_MINUTES * MINUTE_MS);
+  return shifted.getUTCHours() * 60 + shifted.getUTCMinutes();
+};
+
+// The instant of an IST wall-clock time on a date
+export const istInstant = (date: string, minutes: number): Date =>
+  new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + (minutes - IST_OFFSET_MINUTES) * MINUTE_MS);
+
+// Calendar arithmetic on YYYY-MM-DD strings, free of the local time zone
+export const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const weekday = (date: string): number => new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+
+// Name of the exchange holiday on a date, if any
+export const holidayName = (date: string, exchange: Exchange = 'NSE'): string | null =>
+  holidays.get(date.slice(0, 10))?.find(entry => appliesTo(entry, exchange))?.name ?? null;
+
+// The session held on a date: a special session if one is scheduled (Muhurat trading is
+// held on the Diwali holiday, budget sessions on Saturdays), otherwise the regular session
+// on weekdays that are not holidays
+export const sessionOn = (date: string, exchange: Exchange = 'NSE'): MarketSession | null => {
+  const day = date.slice(0, 10);
+  const special = specialSessions.get(day)?.find(entry => appliesTo(entry, exchange));
+  if (special) {
+    return { date: day, open: toMinutes(special.open), close: toMinutes(special.close), special: special.name };
+  }
+  const weekend = weekday(day) === 0 || weekday(day) === 6;
+  return weekend || holidayName(day, exchange) ? null : { date: day, ...REGULAR_SESSION, special: null };
+};
+
+// Whether a session is held on a YYYY-MM-DD date
+export const isTradingDay = (date: string, exchange: Exchange = 'NSE'): boolean => sessionOn(date, exchange) !== null;
+
+// The first trading day after a date
+export const nextTradingDay = (date: string, exchange: Exchange = 'NSE'): string => {
+  let day = addDays(date, 1);
+  while (!isTradingDay(day, exchange)) {
+    day = addDays(day, 1);
+  }
+  return day;
+};
+
+// Trading days strictly between two dates
+export const tradingDaysBetween = (start: string, end: string, exchange: Exchange = 'NSE'): string[] => {
+  const days: string[] = [];
+  for (let day = addDays(start, 1); day < end.slice(0, 10); day = addDays(day, 1)) {
+    if (isTradingDay(day, exchange)) {
+      days.push(day);
+    }
+  }
+  return days;
+};
+
+// First trading day on or after a date, stopping before `limit`; null if there is none
+const firstTradingDay = (from: string, limit: string, exchange: Exchange): string | null => {
+  for (let day = from; day < limit; day = addDays(day, 1)) {
+    if (isTradingDay(day, exchange)) {
+      return day;
+    }
+  }
+  return null;
+};
+
+// Start of the bar after `date`. Intraday bars step through the session and continue at
+// the next session's open; daily bars skip to the next trading day; weekly and monthly
+// bars, which carry the date of their first session, move to the first trading day of
+// the next week or month that has one.
+export const nextBarDate = (date: string, interval: BarInterval, exchange: Exchange = 'NSE'): string => {
+  if (isIntraday(interval)) {
+    const step = interval === '5m' ? 5 : interval === '15m' ? 15 : 60;
+    const next = new Date(Date.parse(date) + step * MINUTE_MS);
+    const day = istDate(next);
+    const minutes = istMinutes(next);
+    const session = sessionOn(day, exchange);
+    if (session && minutes >= session.open && minutes < session.close) {
+      return `${next.toISOString().slice(0, 16)}Z`;
+    }
+    // Past the close: continue at the next session's open (later today if it has not opened yet)
+    const openDay = session && minutes < session.open ? day : nextTradingDay(day, exchange);
+    const open = sessionOn(openDay, exchange)?.open ?? REGULAR_SESSION.open;
+    return `${istInstant(openDay, open).toISOString().slice(0, 16)}Z`;
+  }
+  if (interval === '1d') {
+    return nextTradingDay(date, exchange);
+  }
+
+  const nextPeriod = (start: string): string =>
+    interval === '1wk' ? addDays(start, 7) : `${addDays(start, 32).slice(0, 7)}-01`;
+  let period = nextPeriod(interval === '1wk' ? addDays(date, -((weekday(date) + 6) % 7)) : `${date.slice(0, 7)}-01`);
+  let first = firstTradingDay(period, nextPeriod(period), exchange);
+  while (!first) {
+    period = nextPeriod(period);
+    first = firstTradingDay(period, nextPeriod(period), exchange);
+  }
+  return first;
+};
+
+// A bar date for display in IST whatever the viewer's time zone, e.g. "Mon, 26 Oct" or,
+// for intraday bars, "Mon, 26 Oct, 10:15"
+export const formatIstDate = (date: string, options: Intl.DateTimeFormatOptions = {}): string => {
+  const intraday = date.length > 10;
+  return new Date(date).toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    ...(intraday ? { hour: '2-digit', minute: '2-digit', hour12: false } : {}),
+    ...options
+  });
+};
+
+// Dates of the next `count` bars after lastDate, e.g. the labels of a multi-step forecast
+export const futureBarDates = (lastDate: string, interval: BarInterval, count: number, exchange: Exchange = 'NSE'): string[] => {
+  const dates: string[] = [];
+  let current = lastDate;
+  for (let i = 0; i < count; i++) {
+    current = nextBarDate(current, interval, exchange);
+    dates.push(current);
+  }
+  return dates;
+};
@@ -0,0 +1,139 @@
+import { NeuralHyperparameters, TrainingCancelledError, TrainingProgress } from './ml-utils';
+import { Candle } from './market-data';
+import { ModelId } from './models/types';
+import { PredictionResult } from './prediction';
+import { SearchStrategy, TuningResult, TuningTrial } from './tuning';
+import { TrainingWorkerRequest, TrainingWorkerResponse } from './worker-protocol';
+
+export interface TrainingJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+interface PendingJob {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: TrainingProgress) => void;
+  onTrial?: (trial: TuningTrial, completed: number, total: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+const handleMessage = (event: MessageEvent<TrainingWorkerResponse>) => {
+  const message = event.data;
+  const job = pending.get(message.jobId);
+  if (!job) {
+    return;
+  }
+
+  switch (message.type) {
+    case 'progress':
+      job.onProgress?.(message.progress);
+      return;
+    case 'trial':
+      job.onTrial?.(message.trial, message.completed, message.total);
+      return;
+    case 'prediction':
+      job.resolve(message.result);
+      break;
+    case 'forecast':
+      job.resolve(message.forecast);
+      break;
+    case 'tuning':
+      job.resolve(message.result);
+      break;
+    case 'cancelled':
+      job.reject(new TrainingCancelledError());
+      break;
+    case 'error':
+      job.reject(new Error(message.message));
+      break;
+  }
+  pending.delete(message.jobId);
+};
+
+// A crashed worker fails every job in flight; the next job starts a fresh one
+const handleError = (event: ErrorEvent) => {
+  pending.forEach(job => job.reject(new Error(event.message || 'Training worker crashed')));
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+};
+
+const getWorker = (): Worker => {
+  if (typeof Worker === 'undefined') {
+    throw new Error('Web Workers are not supported in this browser');
+  }
+  if (!worker) {
+    worker = new Worker(new URL('../workers/training.worker.ts', import.meta.url));
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+  }
+  return worker;
+};
+
+const startJob = <T>(
+  request: (jobId: number) => TrainingWorkerRequest,
+  onProgress?: (progress: TrainingProgress) => void,
+  onTrial?: PendingJob['onTrial']
+): TrainingJob<T> => {
+  const jobId = nextJobId++;
+  let target: Worker;
+  try {
+    target = getWorker();
+  } catch (error) {
+    return { promise: Promise.reject(error), cancel: () => {} };
+  }
+
+  const promise = new Promise<T>((resolve, reject) => {
+    pending.set(jobId, { resolve: resolve as (value: unknown) => void, reject, onProgress, onTrial });
+  });
+  target.postMessage(request(jobId));
+
+  return {
+    promise,
+    // Settle immediately; the worker stops training at its next batch boundary
+    cancel: () => {
+      const job = pending.get(jobId);
+      if (!job) {
+        return;
+      }
+      pending.delete(jobId);
+      target.postMessage({ type: 'cancel', jobId } satisfies TrainingWorkerRequest);
+      job.reject(new TrainingCancelledError());
+    }
+  };
+};
+
+// Train a network model off the main thread and return the full prediction. With a
+// `modelKey` the worker reuses the model saved for that key and fine-tunes it on new bars.
+export const startNeuralPrediction = (
+  model: ModelId,
+  candles: Candle[],
+  horizon: number,
+  onProgress?: (progress: TrainingProgress) => void,
+  modelKey?: string,
+  hyperparameters?: NeuralHyperparameters
+): TrainingJob<PredictionResult> =>
+  startJob(jobId => ({ type: 'predict', jobId, model, candles, horizon, modelKey, hyperparameters }), onProgress);
+
+// Train a network model off the main thread and return only the forecast
+export const startNeuralForecast = (
+  model: ModelId,
+  candles: Candle[],
+  horizon: number,
+  onProgress?: (progress: TrainingProgress) => void
+): TrainingJob<number[]> =>
+  startJob(jobId => ({ type: 'forecast', jobId, model, candles, horizon }), onProgress);
+
+// Search a network model's hyperparameters off the main thread, reporting each
+// configuration as its cross-validation finishes
+export const startTuning = (
+  model: ModelId,
+  candles: Candle[],
+  strategy: SearchStrategy,
+  onTrial?: (trial: TuningTrial, completed: number, total: number) => void
+): TrainingJob<TuningResult> =>
+  startJob(jobId => ({ type: 'tune', jobId, model, candles, strategy }), undefined, onTrial);
@@ -0,0 +1,34 @@
+import { ModelId } from './models/types';
+import { TuningResult } from './tuning';
+
+const storageKey = (symbol: string, model: ModelId) => `stock-predictor:tuning:${symbol}:${model}`;
+
+// Tuning results are kept in localStorage per symbol and model, since good settings for a
+// large-cap rarely suit a small-cap. Unavailable or corrupt storage reads as "not tuned".
+export const loadTuning = (symbol: string, model: ModelId): TuningResult | null => {
+  if (typeof localStorage === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = localStorage.getItem(storageKey(symbol, model));
+    return raw ? JSON.parse(raw) as TuningResult : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTuning = (symbol: string, model: ModelId, result: TuningResult): void => {
+  try {
+    localStorage.setItem(storageKey(symbol, model), JSON.stringify(result));
+  } catch (error) {
+    console.warn(`Could not save tuning for ${symbol}:`, error);
+  }
+};
+
+export const clearTuning = (symbol: string, model: ModelId): void => {
+  try {
+    localStorage.removeItem(storageKey(symbol, model));
+  } catch {
+    // Nothing saved that could be used
+  }
+};
@@ -0,0 +1,163 @@
+import { Candle } from './market-data';
+import {
+  DEFAULT_HYPERPARAMETERS,
+  NeuralHyperparameters,
+  TrainingCancelledError,
+  TrainingOptions,
+  getPredictionsForData,
+  minTrainingCandles,
+  trainLinearRegressionModel
+} from './ml-utils';
+
+// Candidate values per hyperparameter; anything left out stays at its default
+export type SearchSpace = { [K in keyof NeuralHyperparameters]?: NeuralHyperparameters[K][] };
+
+export type SearchStrategy = 'random' | 'grid';
+
+export const NEURAL_SEARCH_SPACE: SearchSpace = {
+  layers: [[32, 16], [64, 32, 16], [128, 64]],
+  dropout: [0.1, 0.3],
+  l2: [0, 0.001],
+  learningRate: [0.001, 0.0005],
+  initialEpochs: [50, 100],
+  finetuneEpochs: [0, 50]
+};
+
+export interface TuningTrial {
+  hyperparameters: NeuralHyperparameters;
+  // Mean absolute percentage error of the one-step predictions in each validation fold
+  foldErrors: number[];
+  // Mean of the fold errors; lower is better
+  score: number;
+  isDefault: boolean;
+}
+
+export interface TuningResult {
+  strategy: SearchStrategy;
+  folds: number;
+  samples: number;
+  // Every evaluated configuration, best first
+  trials: TuningTrial[];
+  best: NeuralHyperparameters;
+  tunedAt: string;
+}
+
+export interface TuningOptions extends TrainingOptions {
+  strategy?: SearchStrategy;
+  // Random search only: configurations to sample besides the defaults
+  trials?: number;
+  folds?: number;
+  space?: SearchSpace;
+  onTrial?: (trial: TuningTrial, completed: number, total: number) => void;
+}
+
+const spaceKeys = (space: SearchSpace) =>
+  (Object.keys(space) as (keyof NeuralHyperparameters)[]).filter(key => (space[key]?.length ?? 0) > 0);
+
+// Number of configurations a grid search over `space` evaluates
+export const gridSize = (space: SearchSpace): number =>
+  spaceKeys(space).reduce((size, key) => size * (space[key]?.length ?? 1), 1);
+
+// Every combination of the candidate values
+const gridConfigs = (space: SearchSpace): NeuralHyperparameters[] =>
+  spaceKeys(space).reduce<NeuralHyperparameters[]>(
+    (configs, key) => configs.flatMap(config => (space[key] ?? []).map(value => ({ ...config, [key]: value }))),
+    [DEFAULT_HYPERPARAMETERS]
+  );
+
+// Up to `count` distinct combinations drawn uniformly from the space
+const randomConfigs = (space: SearchSpace, count: number): NeuralHyperparameters[] => {
+  const seen = new Set<string>();
+  const configs: NeuralHyperparameters[] = [];
+  for (let attempt = 0; configs.length < Math.min(count, gridSize(space)) && attempt < count * 20; attempt++) {
+    const config = spaceKeys(space).reduce<NeuralHyperparameters>((draft, key) => {
+      const values = space[key] ?? [];
+      return { ...draft, [key]: values[Math.floor(Math.random() * values.length)] };
+    }, DEFAULT_HYPERPARAMETERS);
+    const id = JSON.stringify(config);
+    if (!seen.has(id)) {
+      seen.add(id);
+      configs.push(config);
+    }
+  }
+  return configs;
+};
+
+// Expanding-window folds: each trains on everything before its validation block, and the
+// blocks tile the most recent part of the series
+const timeSeriesFolds = (length: number, folds: number, minTrainSize: number): { trainEnd: number; validationEnd: number }[] => {
+  const blockSize = Math.floor((length - minTrainSize) / folds);
+  if (blockSize < 1) {
+    throw new Error(`Tuning with ${folds} folds needs at least ${minTrainSize + folds} bars, got ${length}`);
+  }
+  return Array.from({ length: folds }, (_, k) => {
+    const trainEnd = length - (folds - k) * blockSize;
+    return { trainEnd, validationEnd: trainEnd + blockSize };
+  });
+};
+
+// Train on the fold's history, then score one-step predictions over its validation block.
+// Each prediction uses features of the bar before it, so nothing in the block is seen early.
+const foldError = async (
+  candles: Candle[],
+  { trainEnd, validationEnd }: { trainEnd: number; validationEnd: number },
+  hyperparameters: NeuralHyperparameters,
+  options: TrainingOptions
+): Promise<number> => {
+  const bundle = await trainLinearRegressionModel(candles.slice(0, trainEnd), { ...options, hyperparameters });
+  try {
+    const predictions = getPredictionsForData({ ...bundle, trainingCandles: candles.slice(0, validationEnd) });
+    const errors = candles.slice(trainEnd, validationEnd).map((candle, i) => {
+      const predicted = predictions[trainEnd + i];
+      return predicted === null ? NaN : Math.abs((candle.close - predicted) / candle.close);
+    }).filter(error => isFinite(error));
+    return errors.length > 0 ? (errors.reduce((sum, error) => sum + error, 0) / errors.length) * 100 : Infinity;
+  } finally {
+    bundle.model.dispose();
+  }
+};
+
+// Search the neural model's hyperparameters with time-series cross-validation. The
+// defaults are always evaluated first so the report shows what tuning gained.
+export const tuneNeuralModel = async (candles: Candle[], options: TuningOptions = {}): Promise<TuningResult> => {
+  const { strategy = 'random', trials = 10, folds = 3, space = NEURAL_SEARCH_SPACE, onTrial, ...training } = options;
+  const minTrainSize = Math.max(minTrainingCandles(training.features), Math.floor(candles.length * 0.5));
+  const splits = timeSeriesFolds(candles.length, folds, minTrainSize);
+
+  const defaultId = JSON.stringify(DEFAULT_HYPERPARAMETERS);
+  const candidates = [
+    DEFAULT_HYPERPARAMETERS,
+    ...(strategy === 'grid' ? gridConfigs(space) : randomConfigs(space, trials))
+      .filter(config => JSON.stringify(config) !== defaultId)
+  ];
+
+  const results: TuningTrial[] = [];
+  for (const hyperparameters of candidates) {
+    const foldErrors: number[] = [];
+    for (const split of splits) {
+      foldErrors.push(await foldError(candles, split, hyperparameters, training));
+      if (training.shouldStop?.()) {
+        throw new TrainingCancelledError();
+      }
+    }
+
+    const trial: TuningTrial = {
+      hyperparameters,
+      foldErrors,
+      score: foldErrors.reduce((sum, error) => sum + error, 0) / foldErrors.length,
+      isDefault: hyperparameters === DEFAULT_HYPERPARAMETERS
+    };
+    results.push(trial);
+    onTrial?.(trial, results.length, candidates.length);
+  }
+
+  const ranked = [...results].sort((a, b) => a.score - b.score);
+  return {
+    strategy,
+    folds,
+    samples: candles.length,
+    trials: ranked,
+    best: ranked[0].hyperparameters,
+    tunedAt: new Date().toISOString()
+  };
+};
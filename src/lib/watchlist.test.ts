@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseWatchlistInput } from './watchlist';
+
+describe('parseWatchlistInput', () => {
+  it('accepts the symbol forms the stock API accepts', () => {
+    expect(parseWatchlistInput('TCS.NS, tcs.bo NSE:INFY BSE:WIPRO M&M.NSE BAJAJ-AUTO', 'NSE')).toEqual({
+      items: [
+        { symbol: 'TCS', exchange: 'NSE' },
+        { symbol: 'TCS', exchange: 'BSE' },
+        { symbol: 'INFY', exchange: 'NSE' },
+        { symbol: 'WIPRO', exchange: 'BSE' },
+        { symbol: 'M&M', exchange: 'NSE' },
+        { symbol: 'BAJAJ-AUTO', exchange: 'NSE' }
+      ],
+      invalid: []
+    });
+  });
+
+  it('puts bare tickers on the default exchange and bare scrip codes on BSE', () => {
+    expect(parseWatchlistInput('RELIANCE 500325', 'NSE').items).toEqual([
+      { symbol: 'RELIANCE', exchange: 'NSE' },
+      { symbol: '500325', exchange: 'BSE' }
+    ]);
+  });
+
+  it('returns unknown exchanges and conflicting suffixes as invalid', () => {
+    expect(parseWatchlistInput('VOD.L LSE:VOD NSE:TCS.BO TCS', 'BSE')).toEqual({
+      items: [{ symbol: 'TCS', exchange: 'BSE' }],
+      invalid: ['VOD.L', 'LSE:VOD', 'NSE:TCS.BO']
+    });
+  });
+});
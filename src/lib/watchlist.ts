@@ -0,0 +1,75 @@
+import { Exchange } from './market-data';
+import { SCRIP_CODE_PATTERN, TICKER_PATTERN, parseExchangeParts } from './symbol-parts';
+
+export interface WatchlistItem {
+  symbol: string;
+  exchange: Exchange;
+}
+
+export const POPULAR_SYMBOLS: Record<Exchange, string[]> = {
+  NSE: ['RELIANCE', 'TCS', 'INFY', 'HDFCBANK', 'ICICIBANK'],
+  BSE: ['RELIANCE', 'TCS', 'WIPRO', 'BHARTIARTL', 'MARUTI']
+};
+
+const STORAGE_KEY = 'stock-predictor:watchlist';
+
+// Symbols with their exchange suffix, as used by /api/stock
+export const watchlistKey = ({ symbol, exchange }: WatchlistItem): string => `${symbol}.${exchange}`;
+
+// Saved watchlist; unavailable or corrupt storage reads as empty
+export const loadWatchlist = (): WatchlistItem[] => {
+  if (typeof localStorage === 'undefined') {
+    return [];
+  }
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved)
+      ? saved.filter((item): item is WatchlistItem =>
+        typeof item?.symbol === 'string' && (item.exchange === 'NSE' || item.exchange === 'BSE'))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveWatchlist = (items: WatchlistItem[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.warn('Could not save the watchlist:', error);
+  }
+};
+
+// Parse pasted symbols separated by commas, spaces or new lines, in the forms /api/stock
+// accepts (`TCS.BSE`, `TCS.BO`, `NSE:TCS`, `500325`). Bare tickers use `defaultExchange`
+// and bare scrip codes BSE. Unparseable tokens are returned as invalid.
+export const parseWatchlistInput = (
+  text: string,
+  defaultExchange: Exchange
+): { items: WatchlistItem[]; invalid: string[] } => {
+  const items: WatchlistItem[] = [];
+  const invalid: string[] = [];
+  for (const token of text.toUpperCase().split(/[\s,;]+/).filter(Boolean)) {
+    const parsed = parseExchangeParts(token);
+    if ('error' in parsed || !TICKER_PATTERN.test(parsed.body)) {
+      invalid.push(token);
+    } else {
+      const exchange = parsed.exchange ?? (SCRIP_CODE_PATTERN.test(parsed.body) ? 'BSE' : defaultExchange);
+      items.push({ symbol: parsed.body, exchange });
+    }
+  }
+  return { items, invalid };
+};
+
+// Append items that are not on the list yet
+export const mergeWatchlist = (current: WatchlistItem[], added: WatchlistItem[]): WatchlistItem[] => {
+  const keys = new Set(current.map(watchlistKey));
+  const merged = [...current];
+  for (const item of added) {
+    if (!keys.has(watchlistKey(item))) {
+      keys.add(watchlistKey(item));
+      merged.push(item);
+    }
+  }
+  return merged;
+};
@@ -0,0 +1,30 @@
+import { NeuralHyperparameters, TrainingProgress } from './ml-utils';
+import { Candle } from './market-data';
+import { ModelId } from './models/types';
+import { PredictionResult } from './prediction';
+import { SearchStrategy, TuningResult, TuningTrial } from './tuning';
+
+// Messages the page sends to the training worker
+export type TrainingWorkerRequest =
+  | {
+    type: 'predict';
+    jobId: number;
+    model: ModelId;
+    candles: Candle[];
+    horizon: number;
+    modelKey?: string;
+    hyperparameters?: NeuralHyperparameters;
+  }
+  | { type: 'forecast'; jobId: number; model: ModelId; candles: Candle[]; horizon: number }
+  | { type: 'tune'; jobId: number; model: ModelId; candles: Candle[]; strategy: SearchStrategy }
+  | { type: 'cancel'; jobId: number };
+
+// Messages the training worker sends back
+export type TrainingWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: TrainingProgress }
+  | { type: 'prediction'; jobId: number; result: PredictionResult }
+  | { type: 'forecast'; jobId: number; forecast: number[] }
+  | { type: 'trial'; jobId: number; trial: TuningTrial; completed: number; total: number }
+  | { type: 'tuning'; jobId: number; result: TuningResult }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
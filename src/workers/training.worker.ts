@@ -0,0 +1,73 @@
+import * as tf from '@tensorflow/tfjs';
+import { TrainingCancelledError, TrainingOptions } from '@/lib/ml-utils';
+import { createIndexedDbModelStore } from '@/lib/model-store/indexeddb';
+import { getForecaster } from '@/lib/models/registry';
+import { TrainingWorkerRequest, TrainingWorkerResponse } from '@/lib/worker-protocol';
+
+// Jobs in progress, and those of them cancelled by the page; training polls the latter
+// between batches. Both are cleared when a job settles.
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+// Trained models are kept per symbol so later sessions only fine-tune on new bars
+const modelStore = createIndexedDbModelStore();
+
+const send = (message: TrainingWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const optionsFor = (jobId: number): TrainingOptions => ({
+  onEpochEnd: progress => send({ type: 'progress', jobId, progress }),
+  shouldStop: () => cancelled.has(jobId)
+});
+
+self.addEventListener('message', async (event: MessageEvent<TrainingWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    // A cancel for a job that already finished has nothing to stop
+    if (running.has(request.jobId)) {
+      cancelled.add(request.jobId);
+    }
+    return;
+  }
+
+  const { jobId } = request;
+  running.add(jobId);
+  try {
+    await tf.ready();
+
+    const forecaster = getForecaster(request.model);
+    if (request.type === 'predict') {
+      const result = await forecaster.predict(request.candles, request.horizon, {
+        ...optionsFor(jobId),
+        store: modelStore,
+        modelKey: request.modelKey,
+        hyperparameters: request.hyperparameters
+      });
+      send({ type: 'prediction', jobId, result });
+    } else if (request.type === 'tune') {
+      if (!forecaster.tune) {
+        throw new Error(`${forecaster.label} has no hyperparameters to tune`);
+      }
+      const result = await forecaster.tune(request.candles, {
+        ...optionsFor(jobId),
+        strategy: request.strategy,
+        onTrial: (trial, completed, total) => send({ type: 'trial', jobId, trial, completed, total })
+      });
+      send({ type: 'tuning', jobId, result });
+    } else {
+      const forecast = await forecaster.forecast(request.candles, request.horizon, optionsFor(jobId));
+      send({ type: 'forecast', jobId, forecast });
+    }
+  } catch (error) {
+    if (error instanceof TrainingCancelledError || cancelled.has(jobId)) {
+      send({ type: 'cancelled', jobId });
+    } else {
+      send({ type: 'error', jobId, message: error instanceof Error ? error.message : 'Training failed' });
+    }
+  } finally {
+    running.delete(jobId);
+    cancelled.delete(jobId);
+  }
+});